@@ -0,0 +1,396 @@
+// Banification analysis core
+// Pure essentia + Float32Array code so it can run in the analysis worker
+
+import { quantizeRhythm } from './beatgrid';
+import { PROFILES, ScoringProfile, scoreBpm } from './profiles';
+import { ProgressReporter } from './progress';
+import {
+    FrameFeatures,
+    measureWindows,
+    Section,
+    sectionAt,
+    segmentSections,
+    TimelineWindow,
+    WindowFeatures,
+    windowBoundaries,
+} from './timeline';
+
+export type ScoreComponentId = 'bpm' | 'energy' | 'loudness' | 'spectral' | 'brightness' | 'percussion';
+
+/**
+ * One ingredient of the banger score, so the UI can explain the verdict
+ */
+export interface ScoreComponent {
+    id: ScoreComponentId;
+    label: string;
+    score: number; // 0-100
+    weight: number; // 0-1, weights sum to 1
+    contribution: number; // score * weight, points added to the total
+}
+
+/**
+ * Raw measurements, independent of the scoring profile
+ */
+export interface TrackFeatures {
+    bpm: number;
+    energy: number;
+    rms: number;
+    zcr: number;
+    spectralEnergy: number; // mean HFC
+    spectralCentroid: number; // Hz
+    key: string;
+    scale: 'major' | 'minor';
+    keyStrength: number;
+    windows: WindowFeatures[]; // the same measurements per 4-bar window
+    sections: Section[];
+}
+
+export interface BanificationScore {
+    score: number; // 0-100
+    components: ScoreComponent[];
+    profile: string; // name of the profile it was scored against
+    threshold: number; // score needed for 'ALREADY A BANGER' in that profile
+    features: TrackFeatures; // kept so the track can be re-scored against another profile
+    bpm: number;
+    energy: number;
+    danceability: number;
+    dynamicComplexity: number;
+    spectralEnergy: number;
+    key: string; // root note, e.g. 'F#'
+    scale: 'major' | 'minor';
+    keyStrength: number; // 0-1, how sure essentia is about the key
+    verdict: 'ALREADY A BANGER' | 'NEEDS TO BE BANGIFIED';
+    message: string;
+    timeline: TimelineWindow[]; // banger curve, one score per 4-bar window
+    sections: Section[]; // intro/build/drop/breakdown
+}
+
+/**
+ * Beat grid and tempo, computed once per track
+ */
+export interface RhythmAnalysis {
+    bpm: number;
+    beats: number[]; // seconds
+    downbeat?: number; // index of the first beat that starts a bar (0 if unknown)
+}
+
+// Report loop progress every this many frames
+const PROGRESS_INTERVAL = 256;
+
+/**
+ * Estimate key and scale with essentia's KeyExtractor
+ * @param essentia - Essentia instance
+ * @param audioVector - Mono audio as an essentia vector
+ * @param sampleRate - Sample rate of the audio
+ * @returns Root note, scale and strength (C major with 0 strength if detection fails)
+ */
+export function detectKey(
+    essentia: any,
+    audioVector: any,
+    sampleRate: number
+): Pick<BanificationScore, 'key' | 'scale' | 'keyStrength'> {
+    try {
+        console.log('[ANALYSIS] Detecting key...');
+        const result = essentia.KeyExtractor(
+            audioVector, true, 4096, 4096, 12, 3500, 60, 25, 0.2, 'bgate', sampleRate
+        );
+        console.log('[ANALYSIS] Key:', result.key, result.scale, result.strength);
+        return {
+            key: result.key,
+            scale: result.scale === 'minor' ? 'minor' : 'major',
+            keyStrength: result.strength,
+        };
+    } catch (e) {
+        console.warn('[ANALYSIS] Key detection failed:', e);
+        return { key: 'C', scale: 'major', keyStrength: 0 };
+    }
+}
+
+/**
+ * Find BPM and beat positions with RhythmDescriptors
+ * @param essentia - Essentia instance
+ * @param audioVector - Mono audio as an essentia vector
+ */
+export function detectRhythm(essentia: any, audioVector: any): RhythmAnalysis {
+    const result = essentia.RhythmDescriptors(audioVector);
+    return {
+        bpm: result.bpm || 120,
+        beats: Array.from(essentia.vectorToArray(result.beats_position) as Float32Array),
+    };
+}
+
+const COMPONENT_LABELS: Record<ScoreComponentId, string> = {
+    bpm: 'BPM',
+    energy: 'Energy',
+    loudness: 'Loudness',
+    spectral: 'Spectral energy',
+    brightness: 'Brightness',
+    percussion: 'Percussion',
+};
+
+type ScoredFeatures = Pick<TrackFeatures, 'bpm' | 'energy' | 'rms' | 'zcr' | 'spectralEnergy' | 'spectralCentroid'>;
+
+/**
+ * Score each component (0-100) and weight it by the profile
+ * @param features - Whole-track or per-window measurements
+ * @param profile - Genre profile to score against
+ * @returns The components, in COMPONENT_LABELS order
+ */
+function scoreComponents(features: ScoredFeatures, profile: ScoringProfile): ScoreComponent[] {
+    const { bpm, energy, rms, zcr, spectralEnergy, spectralCentroid } = features;
+    const { normalizers } = profile;
+
+    // Normalize and score each component (0-100)
+    const componentScores: Record<ScoreComponentId, number> = {
+        bpm: scoreBpm(bpm, profile), // Full marks inside the profile's BPM range
+        energy: Math.min(100, Math.log10(energy + 1) * normalizers.energy), // Logarithmic scale
+        loudness: Math.min(100, rms * normalizers.loudness), // RMS-based loudness
+        spectral: Math.min(100, (spectralEnergy / normalizers.spectral) * 100), // High frequency energy
+        brightness: Math.min(100, (spectralCentroid / normalizers.brightness) * 100), // Spectral brightness
+        percussion: Math.min(100, zcr * normalizers.percussion), // Zero crossing indicates percussion
+    };
+
+    // Weighted average, with the profile's weights normalized to sum to 1
+    const ids = Object.keys(COMPONENT_LABELS) as ScoreComponentId[];
+    const weightSum = ids.reduce((sum, id) => sum + Math.max(0, profile.weights[id] ?? 0), 0) || 1;
+    return ids.map(id => {
+        const weight = Math.max(0, profile.weights[id] ?? 0) / weightSum;
+        return {
+            id,
+            label: COMPONENT_LABELS[id],
+            score: componentScores[id],
+            weight,
+            contribution: componentScores[id] * weight,
+        };
+    });
+}
+
+const totalOf = (components: ScoreComponent[]) =>
+    components.reduce((sum, component) => sum + component.contribution, 0);
+
+/**
+ * Turn measured features into a banger score for a genre profile (cheap, no audio needed)
+ * @param features - Measurements from computeBanification
+ * @param profile - Genre profile to score against
+ * @returns The full score, verdict and breakdown
+ */
+export function scoreTrack(features: TrackFeatures, profile: ScoringProfile = PROFILES.hardstyle): BanificationScore {
+    const { bpm, energy, spectralEnergy } = features;
+    console.log('[ANALYSIS] Calculating scores for profile', profile.name);
+
+    const components = scoreComponents(features, profile);
+    const componentScores = Object.fromEntries(
+        components.map(component => [component.id, component.score])
+    ) as Record<ScoreComponentId, number>;
+    console.log('[ANALYSIS] Component scores:', componentScores);
+
+    // Calculate danceability estimate (combination of rhythm and energy)
+    const danceability = (componentScores.bpm * 0.4 + componentScores.energy * 0.3 + componentScores.percussion * 0.3) / 100;
+    const dynamicComplexity = Math.min(10, (spectralEnergy + energy) / 10000);
+    const totalScore = totalOf(components);
+
+    // Same scoring per window, at the track's tempo
+    const timeline: TimelineWindow[] = features.windows.map(window => ({
+        start: window.start,
+        end: window.end,
+        score: totalOf(scoreComponents({ ...window, bpm }, profile)),
+        section: sectionAt(features.sections, (window.start + window.end) / 2),
+    }));
+
+    const threshold = profile.threshold;
+    const verdict = totalScore >= threshold ? 'ALREADY A BANGER' : 'NEEDS TO BE BANGIFIED';
+
+    let message = '';
+    if (totalScore >= threshold + 15) {
+        message = `🔥 THIS TRACK SLAPS! Score: ${totalScore.toFixed(0)}/100 - Pure fire! 🔥`;
+    } else if (totalScore >= threshold) {
+        message = `✨ Nice vibes! Score: ${totalScore.toFixed(0)}/100 - Already a solid banger! ✨`;
+    } else if (totalScore >= threshold - 20) {
+        message = `⚡ Has potential! Score: ${totalScore.toFixed(0)}/100 - Let's make it BANG! ⚡`;
+    } else {
+        message = `💥 Needs work! Score: ${totalScore.toFixed(0)}/100 - Time to hardstylify! 💥`;
+    }
+
+    console.log('[ANALYSIS] Final score:', totalScore, 'verdict:', verdict);
+
+    return {
+        score: totalScore,
+        components,
+        profile: profile.name,
+        threshold,
+        features,
+        bpm,
+        energy,
+        danceability,
+        dynamicComplexity,
+        spectralEnergy,
+        key: features.key,
+        scale: features.scale,
+        keyStrength: features.keyStrength,
+        verdict: verdict as 'ALREADY A BANGER' | 'NEEDS TO BE BANGIFIED',
+        message,
+        timeline,
+        sections: features.sections,
+    };
+}
+
+/**
+ * Score a track's banger potential
+ * @param essentia - Essentia instance
+ * @param audioData - Mono audio
+ * @param sampleRate - Sample rate of the audio
+ * @param profile - Genre profile to score against
+ * @param report - Progress callback
+ * @returns The score and the rhythm analysis (so processing can reuse the beat grid)
+ */
+export function computeBanification(
+    essentia: any,
+    audioData: Float32Array,
+    sampleRate: number,
+    profile: ScoringProfile,
+    report: ProgressReporter
+): { score: BanificationScore; rhythm: RhythmAnalysis } {
+    try {
+        console.log('[ANALYSIS] Starting analysis...');
+        console.log('[ANALYSIS] Audio data length:', audioData.length);
+
+        let audioVector = essentia.arrayToVector(audioData);
+        console.log('[ANALYSIS] Created audio vector');
+
+        report({ stage: 'rhythm', message: 'MEASURING THE ENERGY... ⚡', fraction: 0 });
+
+        // 1. Estimate BPM using RhythmDescriptors (simpler than RhythmExtractor2013)
+        let rhythm: RhythmAnalysis = { bpm: 120, beats: [] }; // default
+        try {
+            console.log('[ANALYSIS] Calculating BPM...');
+            rhythm = quantizeRhythm(detectRhythm(essentia, audioVector), audioData, sampleRate);
+            console.log('[ANALYSIS] BPM:', rhythm.bpm);
+        } catch (e) {
+            console.warn('[ANALYSIS] BPM detection failed, using default:', e);
+        }
+        const bpm = rhythm.bpm;
+        report({ stage: 'key', message: 'MEASURING THE ENERGY... ⚡', fraction: 0.15 });
+
+        // Estimate key and scale (used to tune the kick)
+        const { key, scale, keyStrength } = detectKey(essentia, audioVector, sampleRate);
+        report({ stage: 'energy', message: 'MEASURING THE ENERGY... ⚡', fraction: 0.25 });
+
+        // 2. Calculate Energy
+        console.log('[ANALYSIS] Calculating energy...');
+        const energy = essentia.Energy(audioVector).energy;
+        console.log('[ANALYSIS] Energy:', energy);
+
+        // 3. Calculate RMS for loudness
+        console.log('[ANALYSIS] Calculating RMS...');
+        const rms = essentia.RMS(audioVector).rms;
+        console.log('[ANALYSIS] RMS:', rms);
+
+        // 4. Calculate Zero Crossing Rate (indicates percussive/noise content)
+        console.log('[ANALYSIS] Calculating Zero Crossing Rate...');
+        let zcr = 0;
+        const frameSize = 2048;
+        const hopSize = 1024;
+        // Per-frame values are kept for the per-window timeline
+        const frames: FrameFeatures = { frameSize, hopSize, zcr: [], hfc: [], centroid: [] };
+        const totalFrames = Math.max(1, Math.ceil((audioData.length - frameSize) / hopSize));
+        let zcrCount = 0;
+
+        for (let i = 0; i + frameSize < audioData.length; i += hopSize) {
+            const frame = audioData.slice(i, i + frameSize);
+            const frameVector = essentia.arrayToVector(frame);
+            const zcrResult = essentia.ZeroCrossingRate(frameVector);
+            zcr += zcrResult.zeroCrossingRate;
+            frames.zcr.push(zcrResult.zeroCrossingRate);
+            zcrCount++;
+            // Don't delete frameVector - it causes Essentia to become invalid
+
+            if (zcrCount % PROGRESS_INTERVAL === 0) {
+                report({
+                    stage: 'energy',
+                    message: 'MEASURING THE ENERGY... ⚡',
+                    fraction: 0.3 + 0.2 * (zcrCount / totalFrames),
+                    framesProcessed: zcrCount,
+                    framesTotal: totalFrames,
+                });
+            }
+        }
+        zcr = zcrCount > 0 ? zcr / zcrCount : 0;
+        console.log('[ANALYSIS] ZCR:', zcr, 'from', zcrCount, 'frames');
+
+        // 5. Calculate spectral energy (high frequency content)
+        report({ stage: 'spectral', message: 'SCANNING FREQUENCIES... 🎚️', fraction: 0.5, framesProcessed: 0, framesTotal: totalFrames });
+        console.log('[ANALYSIS] Calculating spectral features...');
+        let spectralEnergySum = 0;
+        let spectralCentroidSum = 0;
+        let frameCount = 0;
+
+        for (let i = 0; i + frameSize < audioData.length; i += hopSize) {
+            const frame = audioData.slice(i, i + frameSize);
+            const frameVector = essentia.arrayToVector(frame);
+            const windowed = essentia.Windowing(frameVector);
+            const spectrum = essentia.Spectrum(windowed.frame);
+
+            // High Frequency Content
+            const hfc = essentia.HFC(spectrum.spectrum);
+            spectralEnergySum += hfc.hfc;
+            frames.hfc.push(hfc.hfc);
+
+            // Spectral Centroid (brightness)
+            const centroid = essentia.Centroid(spectrum.spectrum);
+            spectralCentroidSum += centroid.centroid;
+            frames.centroid.push(centroid.centroid);
+
+            frameCount++;
+            // Don't delete any objects - let garbage collector handle it
+
+            if (frameCount % PROGRESS_INTERVAL === 0) {
+                report({
+                    stage: 'spectral',
+                    message: 'SCANNING FREQUENCIES... 🎚️',
+                    fraction: 0.5 + 0.45 * (frameCount / totalFrames),
+                    framesProcessed: frameCount,
+                    framesTotal: totalFrames,
+                });
+            }
+        }
+
+        const spectralEnergy = frameCount > 0 ? spectralEnergySum / frameCount : 0;
+        const spectralCentroid = frameCount > 0 ? spectralCentroidSum / frameCount : 0;
+        console.log('[ANALYSIS] Spectral energy:', spectralEnergy, 'centroid:', spectralCentroid, 'from', frameCount, 'frames');
+
+        report({ stage: 'score', message: 'CALCULATING BANGER POTENTIAL... 🎯', fraction: 0.95 });
+
+        // 6. Same measurements per 4-bar window, and the section layout
+        const boundaries = windowBoundaries(rhythm, audioData.length / sampleRate);
+        const windows = measureWindows(audioData, sampleRate, boundaries, frames);
+        const sections = segmentSections(windows);
+        console.log('[ANALYSIS] Sections:', sections.map(section => `${section.type}@${section.start.toFixed(1)}s`).join(' '));
+
+        // Don't delete audioVector here - it will cause issues
+        // Just prepare and return the result
+        const features: TrackFeatures = {
+            bpm,
+            energy,
+            rms,
+            zcr,
+            spectralEnergy,
+            spectralCentroid,
+            key,
+            scale,
+            keyStrength,
+            windows,
+            sections,
+        };
+        const result = scoreTrack(features, profile);
+
+        console.log('[ANALYSIS] Returning result');
+        report({ stage: 'done', message: 'CALCULATING BANGER POTENTIAL... 🎯', fraction: 1 });
+        return { score: result, rhythm };
+    } catch (error) {
+        console.error('[ANALYSIS] ERROR occurred:', error);
+        console.error('[ANALYSIS] Error type:', (error as any)?.constructor?.name);
+        console.error('[ANALYSIS] Error message:', (error as any)?.message);
+        console.error('[ANALYSIS] Error stack:', (error as any)?.stack);
+        throw error;
+    }
+}
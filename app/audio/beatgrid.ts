@@ -0,0 +1,189 @@
+// Beat grid quantization and editing
+// RhythmDescriptors' beats jitter and drop out. Fit them to one steady grid, find the
+// downbeat, and give the UI small pure edits (nudge, double/halve, add/delete) to fix the rest
+
+import type { RhythmAnalysis } from './analysis';
+import { lowBandEnvelope } from './placement';
+
+export const BEATS_PER_BAR = 4;
+
+// Detected beats further than this (in beats) from the fitted grid are ignored by the fit
+const MAX_JITTER = 0.25;
+const FIT_ITERATIONS = 3;
+// Where to look for the bar's accent around each beat
+const ACCENT_WINDOW = 0.05;
+
+/**
+ * Median of a list of numbers
+ */
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Find which of the first BEATS_PER_BAR beats starts a bar: the phase whose beats carry
+ * the most low-end energy (kicks and bass land hardest on the one)
+ * @param audioData - Mono audio
+ * @param sampleRate - Sample rate of the audio
+ * @param beats - Beat positions in seconds
+ * @returns Index of the first downbeat (0 to BEATS_PER_BAR - 1)
+ */
+export function detectDownbeat(audioData: Float32Array, sampleRate: number, beats: number[]): number {
+    const { envelope, blockRate } = lowBandEnvelope(audioData, sampleRate);
+    const accents = new Array(BEATS_PER_BAR).fill(0);
+    const counts = new Array(BEATS_PER_BAR).fill(0);
+
+    beats.forEach((time, index) => {
+        const first = Math.max(0, Math.floor((time - ACCENT_WINDOW / 2) * blockRate));
+        const last = Math.min(envelope.length, Math.ceil((time + ACCENT_WINDOW) * blockRate));
+        let accent = 0;
+        for (let b = first; b < last; b++) {
+            accent = Math.max(accent, envelope[b]);
+        }
+        accents[index % BEATS_PER_BAR] += accent;
+        counts[index % BEATS_PER_BAR]++;
+    });
+
+    let downbeat = 0;
+    accents.forEach((accent, phase) => {
+        if (accent / Math.max(1, counts[phase]) > accents[downbeat] / Math.max(1, counts[downbeat])) {
+            downbeat = phase;
+        }
+    });
+    return downbeat;
+}
+
+/**
+ * Fit detected beats to a steady grid: least-squares line through (beat number, time),
+ * refit without outliers, then regenerate every beat from the first to the last detected one.
+ * Assumes a constant tempo, which electronic tracks have
+ * @param raw - Beats straight from RhythmDescriptors
+ * @param audioData - Mono audio (for downbeat detection)
+ * @param sampleRate - Sample rate of the audio
+ * @returns A gapless, evenly spaced grid with its downbeat (the beats unchanged when too few
+ *          distinct ones were detected to fit a tempo)
+ */
+export function quantizeRhythm(raw: RhythmAnalysis, audioData: Float32Array, sampleRate: number): RhythmAnalysis {
+    // Duplicate ticks would make a zero period
+    const beats = Array.from(new Set(raw.beats)).sort((a, b) => a - b);
+    if (beats.length < BEATS_PER_BAR) return { ...raw, downbeat: 0 };
+
+    // Number the beats by counting local intervals, so a slightly-off period estimate doesn't
+    // add up over the track. Extra beats that land between two others are skipped
+    const intervals = beats.slice(1).map((time, index) => time - beats[index]);
+    let period = median(intervals);
+    let offset = beats[0];
+    let numbered = [{ n: 0, time: beats[0] }];
+    for (let i = 1; i < beats.length; i++) {
+        const previous = numbered[numbered.length - 1];
+        const steps = Math.round((beats[i] - previous.time) / period);
+        if (steps >= 1) numbered.push({ n: previous.n + steps, time: beats[i] });
+    }
+
+    for (let iteration = 0; iteration < FIT_ITERATIONS; iteration++) {
+        // Least squares: time = offset + n * period
+        const count = numbered.length;
+        if (count < 2) break;
+        const meanN = numbered.reduce((sum, beat) => sum + beat.n, 0) / count;
+        const meanTime = numbered.reduce((sum, beat) => sum + beat.time, 0) / count;
+        let covariance = 0;
+        let variance = 0;
+        for (const beat of numbered) {
+            covariance += (beat.n - meanN) * (beat.time - meanTime);
+            variance += (beat.n - meanN) * (beat.n - meanN);
+        }
+        if (variance === 0) break;
+        period = covariance / variance;
+        offset = meanTime - period * meanN;
+
+        // Refit without the beats that are way off the line
+        numbered = numbered.filter(({ n, time }) => Math.abs(time - (offset + n * period)) <= MAX_JITTER * period);
+    }
+    if (numbered.length < 2 || !(period > 0)) return { ...raw, downbeat: 0 };
+
+    const first = Math.min(...numbered.map(beat => beat.n));
+    const last = Math.max(...numbered.map(beat => beat.n));
+    const grid: number[] = [];
+    for (let n = first; n <= last; n++) {
+        const time = offset + n * period;
+        if (time >= 0) grid.push(time);
+    }
+
+    return {
+        bpm: 60 / period,
+        beats: grid,
+        downbeat: detectDownbeat(audioData, sampleRate, grid),
+    };
+}
+
+/**
+ * Shift the whole grid in time (beats pushed before 0 are dropped)
+ */
+export function nudgeGrid(rhythm: RhythmAnalysis, seconds: number): RhythmAnalysis {
+    const beats = rhythm.beats.map(time => time + seconds);
+    const dropped = beats.findIndex(time => time >= 0);
+    return withDownbeat(rhythm, beats.filter(time => time >= 0), (rhythm.downbeat ?? 0) - Math.max(0, dropped));
+}
+
+/**
+ * Twice the tempo: a beat between every pair of beats
+ */
+export function doubleTempo(rhythm: RhythmAnalysis): RhythmAnalysis {
+    const beats: number[] = [];
+    rhythm.beats.forEach((time, index) => {
+        beats.push(time);
+        const next = rhythm.beats[index + 1];
+        if (next !== undefined) beats.push((time + next) / 2);
+    });
+    return { ...withDownbeat(rhythm, beats, (rhythm.downbeat ?? 0) * 2), bpm: rhythm.bpm * 2 };
+}
+
+/**
+ * Half the tempo: keep every other beat, downbeats included
+ */
+export function halveTempo(rhythm: RhythmAnalysis): RhythmAnalysis {
+    const downbeat = rhythm.downbeat ?? 0;
+    const phase = downbeat % 2;
+    const beats = rhythm.beats.filter((_, index) => index % 2 === phase);
+    return { ...withDownbeat(rhythm, beats, (downbeat - phase) / 2), bpm: rhythm.bpm / 2 };
+}
+
+/**
+ * Move the downbeat to the next beat
+ */
+export function shiftDownbeat(rhythm: RhythmAnalysis, by: number = 1): RhythmAnalysis {
+    return withDownbeat(rhythm, rhythm.beats, (rhythm.downbeat ?? 0) + by);
+}
+
+/**
+ * Remove one beat
+ */
+export function deleteBeat(rhythm: RhythmAnalysis, index: number): RhythmAnalysis {
+    const downbeat = rhythm.downbeat ?? 0;
+    const beats = rhythm.beats.filter((_, i) => i !== index);
+    return withDownbeat(rhythm, beats, index < downbeat ? downbeat - 1 : downbeat);
+}
+
+/**
+ * Insert a beat at a time, keeping the grid sorted
+ */
+export function addBeat(rhythm: RhythmAnalysis, time: number): RhythmAnalysis {
+    const downbeat = rhythm.downbeat ?? 0;
+    const index = rhythm.beats.findIndex(beat => beat > time);
+    const at = index === -1 ? rhythm.beats.length : index;
+    const beats = [...rhythm.beats.slice(0, at), time, ...rhythm.beats.slice(at)];
+    return withDownbeat(rhythm, beats, at <= downbeat ? downbeat + 1 : downbeat);
+}
+
+/**
+ * New beats with the downbeat kept inside the first bar
+ */
+function withDownbeat(rhythm: RhythmAnalysis, beats: number[], downbeat: number): RhythmAnalysis {
+    return {
+        ...rhythm,
+        beats,
+        downbeat: ((downbeat % BEATS_PER_BAR) + BEATS_PER_BAR) % BEATS_PER_BAR,
+    };
+}
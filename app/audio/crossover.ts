@@ -0,0 +1,66 @@
+// Two-band crossover
+// Linkwitz-Riley split of a signal into lows and highs that sum back to a flat response,
+// so one band can be processed (ducked) without touching the other
+
+// Butterworth Q, two in series make a 4th-order Linkwitz-Riley section
+const BUTTERWORTH_Q = Math.SQRT1_2;
+
+export interface Biquad {
+    b0: number;
+    b1: number;
+    b2: number;
+    a1: number;
+    a2: number;
+}
+
+/**
+ * Butterworth lowpass and highpass at the same frequency (bilinear transform, prewarped)
+ */
+function butterworthPair(frequency: number, sampleRate: number): { lowpass: Biquad; highpass: Biquad } {
+    const K = Math.tan((Math.PI * Math.min(frequency, sampleRate * 0.45)) / sampleRate);
+    const norm = 1 / (1 + K / BUTTERWORTH_Q + K * K);
+    const a1 = 2 * (K * K - 1) * norm;
+    const a2 = (1 - K / BUTTERWORTH_Q + K * K) * norm;
+    return {
+        lowpass: { b0: K * K * norm, b1: 2 * K * K * norm, b2: K * K * norm, a1, a2 },
+        highpass: { b0: norm, b1: -2 * norm, b2: norm, a1, a2 },
+    };
+}
+
+/**
+ * Run a biquad twice in series (24 dB/oct)
+ */
+function cascade(input: Float32Array, filter: Biquad): Float32Array {
+    const output = new Float32Array(input.length);
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0, z1 = 0, z2 = 0;
+    for (let i = 0; i < input.length; i++) {
+        const x = input[i];
+        const y = filter.b0 * x + filter.b1 * x1 + filter.b2 * x2 - filter.a1 * y1 - filter.a2 * y2;
+        const z = filter.b0 * y + filter.b1 * y1 + filter.b2 * y2 - filter.a1 * z1 - filter.a2 * z2;
+        x2 = x1; x1 = x;
+        y2 = y1; y1 = y;
+        z2 = z1; z1 = z;
+        output[i] = z;
+    }
+    return output;
+}
+
+/**
+ * Split a signal at a crossover frequency (4th-order Linkwitz-Riley)
+ * low + high has a flat magnitude response, only the phase turns around the crossover
+ * @param input - One channel
+ * @param sampleRate - Sample rate
+ * @param frequency - Crossover frequency in Hz
+ * @returns The low and high bands, same length as the input
+ */
+export function splitBands(
+    input: Float32Array,
+    sampleRate: number,
+    frequency: number
+): { low: Float32Array; high: Float32Array } {
+    const { lowpass, highpass } = butterworthPair(frequency, sampleRate);
+    return {
+        low: cascade(input, lowpass),
+        high: cascade(input, highpass),
+    };
+}
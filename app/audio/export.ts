@@ -0,0 +1,95 @@
+// Export formats
+// Turns the processed channels into a downloadable file: PCM/float WAV, FLAC or Opus,
+// all encoded client-side. Runs in the render worker so big files don't freeze the UI
+
+import { encodeFlac, FLAC_PICTURE, FLAC_VORBIS_COMMENT, FlacMetadataBlock } from './flac';
+import { bextChunk, flacPicture, TrackMetadata, vorbisComments, wavInfoChunk } from './metadata';
+import { encodeOpus } from './opus';
+import { ProgressReporter } from './progress';
+import { quantize } from './quantize';
+import { encodeWav } from './wav';
+
+export type ExportFormat = 'wav' | 'flac' | 'opus';
+export type BitDepth = 16 | 24 | 32; // 32 = 32-bit float, WAV only
+
+export interface ExportSettings {
+    format: ExportFormat;
+    bitDepth: BitDepth; // WAV and FLAC
+    bitrate: number; // kbps, Opus only
+    dither: boolean; // TPDF dither when quantizing to 16 or 24 bits
+}
+
+export const DEFAULT_EXPORT: ExportSettings = {
+    format: 'wav',
+    bitDepth: 16,
+    bitrate: 192,
+    dither: true,
+};
+
+export interface ExportFormatInfo {
+    label: string;
+    extension: string;
+    mimeType: string;
+    bitDepths: BitDepth[]; // empty for lossy formats
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+    wav: { label: 'WAV', extension: 'wav', mimeType: 'audio/wav', bitDepths: [16, 24, 32] },
+    flac: { label: 'FLAC (lossless)', extension: 'flac', mimeType: 'audio/flac', bitDepths: [16, 24] },
+    opus: { label: 'Opus / OGG', extension: 'ogg', mimeType: 'audio/ogg', bitDepths: [] },
+};
+
+export const OPUS_BITRATES = [96, 128, 160, 192, 256, 320];
+
+/**
+ * Snap settings to something the format can do (e.g. FLAC has no float)
+ */
+export function normalizeExport(settings: ExportSettings): ExportSettings {
+    const depths = EXPORT_FORMATS[settings.format].bitDepths;
+    if (depths.length === 0 || depths.includes(settings.bitDepth)) return settings;
+    return { ...settings, bitDepth: depths[depths.length - 1] };
+}
+
+/**
+ * Encode channels in the chosen format
+ * @param channels - Processed audio, one array per channel
+ * @param sampleRate - Sample rate
+ * @param settings - Format, bit depth, bitrate and dither
+ * @param report - Progress callback
+ * @param metadata - Tags to write (Vorbis comments for FLAC/Opus, LIST/INFO and bext for WAV)
+ * @returns The encoded file
+ */
+export async function encodeAudio(
+    channels: Float32Array[],
+    sampleRate: number,
+    settings: ExportSettings,
+    report: ProgressReporter,
+    metadata: TrackMetadata | null = null
+): Promise<Blob> {
+    const { format, bitDepth, bitrate, dither } = normalizeExport(settings);
+    const { mimeType } = EXPORT_FORMATS[format];
+    const onProgress = (fraction: number) =>
+        report({ stage: 'encode', message: `PRESSING THE ${format.toUpperCase()}... 💿`, fraction });
+    onProgress(0);
+
+    let parts: BlobPart[];
+    if (format === 'opus') {
+        const comments = metadata ? vorbisComments(metadata, true) : undefined;
+        parts = (await encodeOpus(channels, sampleRate, bitrate * 1000, onProgress, comments)) as BlobPart[];
+    } else if (format === 'flac') {
+        const blocks: FlacMetadataBlock[] = [];
+        if (metadata) {
+            blocks.push({ type: FLAC_VORBIS_COMMENT, body: vorbisComments(metadata, false) });
+            if (metadata.picture) blocks.push({ type: FLAC_PICTURE, body: flacPicture(metadata.picture) });
+        }
+        const samples = quantize(channels, bitDepth as 16 | 24, dither);
+        parts = encodeFlac(samples, sampleRate, bitDepth, onProgress, blocks) as BlobPart[];
+    } else {
+        const info = metadata && wavInfoChunk(metadata);
+        const chunks = metadata ? [bextChunk(metadata), ...(info ? [info] : [])] : [];
+        parts = encodeWav(channels, sampleRate, bitDepth, dither, onProgress, chunks) as BlobPart[];
+    }
+
+    report({ stage: 'done', message: 'READY TO DROP... 💾', fraction: 1 });
+    return new Blob(parts, { type: mimeType });
+}
@@ -0,0 +1,421 @@
+// FLAC encoder
+// Lossless compression with fixed polynomial predictors, partitioned Rice coding of the
+// residual and stereo decorrelation. Not as tight as libFLAC's LPC, but well under a WAV's size
+
+// Samples per frame (every frame but the last)
+const BLOCK_SIZE = 4096;
+const MAX_FIXED_ORDER = 4;
+const MAX_PARTITION_ORDER = 8;
+// Rice parameters are 4 bits and 15 is the escape code
+const MAX_RICE_PARAMETER = 14;
+
+// Channel assignments in the frame header (0-7 are independent channels)
+const LEFT_SIDE = 8;
+const SIDE_RIGHT = 9;
+const MID_SIDE = 10;
+
+// Frame header codes for the common sample rates (others are spelled out after the header)
+const SAMPLE_RATE_CODES: Record<number, number> = {
+    88200: 1, 176400: 2, 192000: 3, 8000: 4, 16000: 5, 22050: 6,
+    24000: 7, 32000: 8, 44100: 9, 48000: 10, 96000: 11,
+};
+
+const POW2: number[] = [];
+for (let i = 0; i <= 64; i++) POW2.push(Math.pow(2, i));
+
+/**
+ * MSB-first bit writer into a growing byte array
+ */
+class BitWriter {
+    private bytes = new Uint8Array(1 << 14);
+    private length = 0;
+    private pending = 0;
+    private pendingBits = 0;
+
+    /**
+     * Write the low `count` bits of an unsigned value (count up to 53)
+     */
+    write(value: number, count: number): void {
+        while (count > 0) {
+            const take = Math.min(count, 8 - this.pendingBits);
+            const chunk = Math.floor(value / POW2[count - take]) & ((1 << take) - 1);
+            this.pending = (this.pending << take) | chunk;
+            this.pendingBits += take;
+            count -= take;
+            if (this.pendingBits === 8) {
+                this.push(this.pending);
+                this.pending = 0;
+                this.pendingBits = 0;
+            }
+        }
+    }
+
+    /**
+     * Two's complement value in `count` bits
+     */
+    writeSigned(value: number, count: number): void {
+        this.write(value < 0 ? value + POW2[count] : value, count);
+    }
+
+    /**
+     * `zeros` zero bits followed by a one (Rice quotient)
+     */
+    writeUnary(zeros: number): void {
+        for (; zeros >= 24; zeros -= 24) this.write(0, 24);
+        this.write(1, zeros + 1);
+    }
+
+    writeBytes(data: Uint8Array): void {
+        for (let i = 0; i < data.length; i++) this.write(data[i], 8);
+    }
+
+    alignToByte(): void {
+        if (this.pendingBits > 0) this.write(0, 8 - this.pendingBits);
+    }
+
+    /**
+     * Bytes written so far (only whole bytes)
+     */
+    toBytes(): Uint8Array {
+        return this.bytes.slice(0, this.length);
+    }
+
+    private push(byte: number): void {
+        if (this.length === this.bytes.length) {
+            const grown = new Uint8Array(this.bytes.length * 2);
+            grown.set(this.bytes);
+            this.bytes = grown;
+        }
+        this.bytes[this.length++] = byte;
+    }
+}
+
+/**
+ * MSB-first CRC lookup table for an 8 or 16 bit polynomial
+ */
+function crcTable(polynomial: number, bits: number): Uint16Array {
+    const top = 1 << (bits - 1);
+    const mask = (1 << bits) - 1;
+    const table = new Uint16Array(256);
+    for (let byte = 0; byte < 256; byte++) {
+        let crc = byte << (bits - 8);
+        for (let bit = 0; bit < 8; bit++) {
+            crc = crc & top ? ((crc << 1) ^ polynomial) & mask : (crc << 1) & mask;
+        }
+        table[byte] = crc;
+    }
+    return table;
+}
+
+const CRC8 = crcTable(0x07, 8);
+const CRC16 = crcTable(0x8005, 16);
+
+function crc8(data: Uint8Array): number {
+    let crc = 0;
+    for (let i = 0; i < data.length; i++) crc = CRC8[crc ^ data[i]];
+    return crc;
+}
+
+function crc16(data: Uint8Array): number {
+    let crc = 0;
+    for (let i = 0; i < data.length; i++) crc = ((crc << 8) & 0xffff) ^ CRC16[(crc >> 8) ^ data[i]];
+    return crc;
+}
+
+/**
+ * How one channel of one frame gets coded, and what it costs in bits
+ */
+interface SubframePlan {
+    type: 'constant' | 'verbatim' | 'fixed';
+    bits: number;
+    order: number;
+    residual: Int32Array;
+    partitionOrder: number;
+    parameters: number[];
+}
+
+/**
+ * Residual of a fixed polynomial predictor (orders 0-4 are binomial differences)
+ */
+function fixedResidual(samples: Int32Array, order: number): Int32Array {
+    const residual = new Int32Array(samples.length - order);
+    for (let i = order; i < samples.length; i++) {
+        const x = samples;
+        let r: number;
+        switch (order) {
+            case 0: r = x[i]; break;
+            case 1: r = x[i] - x[i - 1]; break;
+            case 2: r = x[i] - 2 * x[i - 1] + x[i - 2]; break;
+            case 3: r = x[i] - 3 * x[i - 1] + 3 * x[i - 2] - x[i - 3]; break;
+            default: r = x[i] - 4 * x[i - 1] + 6 * x[i - 2] - 4 * x[i - 3] + x[i - 4];
+        }
+        residual[i - order] = r;
+    }
+    return residual;
+}
+
+/**
+ * Best Rice parameter for a partition from its size and sum of zigzagged residuals
+ * (cost estimated as count * (k + 1) + sum / 2^k, like libFLAC does)
+ */
+function riceParameter(count: number, sum: number): { parameter: number; bits: number } {
+    if (count === 0) return { parameter: 0, bits: 0 };
+    const guess = sum > count ? Math.floor(Math.log2(sum / count)) : 0;
+    let best = { parameter: 0, bits: Infinity };
+    for (let k = Math.max(0, guess - 1); k <= Math.min(MAX_RICE_PARAMETER, guess + 1); k++) {
+        const bits = count * (k + 1) + Math.floor(sum / POW2[k]);
+        if (bits < best.bits) best = { parameter: k, bits };
+    }
+    return best;
+}
+
+/**
+ * Pick the partition order and per-partition Rice parameters for a residual
+ */
+function planResidual(residual: Int32Array, blockSize: number, order: number): Pick<SubframePlan, 'bits' | 'partitionOrder' | 'parameters'> {
+    // Highest order where the block splits evenly and the first partition still holds the warm-up
+    let maxOrder = 0;
+    while (
+        maxOrder < MAX_PARTITION_ORDER
+        && blockSize % (1 << (maxOrder + 1)) === 0
+        && blockSize >> (maxOrder + 1) > order
+    ) {
+        maxOrder++;
+    }
+
+    // Sums at the finest partitioning, merged pairwise for the coarser ones
+    let sums = new Float64Array(1 << maxOrder);
+    let counts = new Float64Array(1 << maxOrder);
+    const partitionSize = blockSize >> maxOrder;
+    for (let i = 0; i < residual.length; i++) {
+        const r = residual[i];
+        const partition = Math.floor((i + order) / partitionSize);
+        sums[partition] += r >= 0 ? 2 * r : -2 * r - 1;
+        counts[partition]++;
+    }
+
+    let best = { bits: Infinity, partitionOrder: 0, parameters: [] as number[] };
+    for (let partitionOrder = maxOrder; partitionOrder >= 0; partitionOrder--) {
+        let bits = 6; // coding method + partition order
+        const parameters: number[] = [];
+        for (let p = 0; p < sums.length; p++) {
+            const rice = riceParameter(counts[p], sums[p]);
+            parameters.push(rice.parameter);
+            bits += 4 + rice.bits;
+        }
+        if (bits < best.bits) best = { bits, partitionOrder, parameters };
+
+        if (partitionOrder > 0) {
+            const mergedSums = new Float64Array(sums.length / 2);
+            const mergedCounts = new Float64Array(sums.length / 2);
+            for (let p = 0; p < mergedSums.length; p++) {
+                mergedSums[p] = sums[2 * p] + sums[2 * p + 1];
+                mergedCounts[p] = counts[2 * p] + counts[2 * p + 1];
+            }
+            sums = mergedSums;
+            counts = mergedCounts;
+        }
+    }
+    return best;
+}
+
+/**
+ * Cheapest way to code one channel of a frame
+ * @param samples - The channel's samples for this frame
+ * @param bitDepth - Bits per sample of this channel (one more for a side channel)
+ */
+function planSubframe(samples: Int32Array, bitDepth: number): SubframePlan {
+    const header = 8;
+    if (samples.every(sample => sample === samples[0])) {
+        return { type: 'constant', bits: header + bitDepth, order: 0, residual: samples, partitionOrder: 0, parameters: [] };
+    }
+
+    let best: SubframePlan = {
+        type: 'verbatim',
+        bits: header + samples.length * bitDepth,
+        order: 0,
+        residual: samples,
+        partitionOrder: 0,
+        parameters: [],
+    };
+    for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, samples.length - 1); order++) {
+        const residual = fixedResidual(samples, order);
+        const plan = planResidual(residual, samples.length, order);
+        const bits = header + order * bitDepth + plan.bits;
+        if (bits < best.bits) best = { type: 'fixed', order, residual, ...plan, bits };
+    }
+    return best;
+}
+
+function writeSubframe(writer: BitWriter, samples: Int32Array, bitDepth: number, plan: SubframePlan): void {
+    if (plan.type === 'constant') {
+        writer.write(0b00000000, 8);
+        writer.writeSigned(samples[0], bitDepth);
+        return;
+    }
+    if (plan.type === 'verbatim') {
+        writer.write(0b00000010, 8);
+        for (let i = 0; i < samples.length; i++) writer.writeSigned(samples[i], bitDepth);
+        return;
+    }
+
+    // 0, type 001xxx (fixed, xxx = order), no wasted bits
+    writer.write((0b001000 | plan.order) << 1, 8);
+    for (let i = 0; i < plan.order; i++) writer.writeSigned(samples[i], bitDepth);
+
+    writer.write(0, 2); // 4-bit Rice parameters
+    writer.write(plan.partitionOrder, 4);
+    const partitionSize = samples.length >> plan.partitionOrder;
+    let index = 0;
+    plan.parameters.forEach((parameter, partition) => {
+        writer.write(parameter, 4);
+        const count = partition === 0 ? partitionSize - plan.order : partitionSize;
+        const divisor = POW2[parameter];
+        for (let i = 0; i < count; i++, index++) {
+            const r = plan.residual[index];
+            const folded = r >= 0 ? 2 * r : -2 * r - 1;
+            writer.writeUnary(Math.floor(folded / divisor));
+            if (parameter > 0) writer.write(folded % divisor, parameter);
+        }
+    });
+}
+
+/**
+ * Frame number in FLAC's extended UTF-8 style coding
+ */
+function writeFrameNumber(writer: BitWriter, value: number): void {
+    if (value < 0x80) {
+        writer.write(value, 8);
+        return;
+    }
+    // Each continuation byte carries 6 bits, the lead byte 6 - continuation
+    let continuation = 1;
+    while (value >= POW2[6 + 5 * continuation]) continuation++;
+    const leadBits = 6 - continuation;
+    const lead = (0xff << (7 - continuation)) & 0xff;
+    writer.write(lead | (Math.floor(value / POW2[6 * continuation]) & ((1 << leadBits) - 1)), 8);
+    for (let i = continuation - 1; i >= 0; i--) {
+        writer.write(0x80 | (Math.floor(value / POW2[6 * i]) & 0x3f), 8);
+    }
+}
+
+/**
+ * One frame: header, a subframe per channel (stereo decorrelated when that's smaller), CRCs
+ */
+function encodeFrame(channels: Int32Array[], frameNumber: number, sampleRate: number, bitDepth: number): Uint8Array {
+    const blockSize = channels[0].length;
+    let assignment = channels.length - 1;
+    let coded = channels.map(samples => ({ samples, bitDepth, plan: planSubframe(samples, bitDepth) }));
+
+    if (channels.length === 2) {
+        const [left, right] = channels;
+        const side = new Int32Array(blockSize);
+        const mid = new Int32Array(blockSize);
+        for (let i = 0; i < blockSize; i++) {
+            side[i] = left[i] - right[i];
+            mid[i] = (left[i] + right[i]) >> 1;
+        }
+        const sideCoded = { samples: side, bitDepth: bitDepth + 1, plan: planSubframe(side, bitDepth + 1) };
+        const midCoded = { samples: mid, bitDepth, plan: planSubframe(mid, bitDepth) };
+        const [leftCoded, rightCoded] = coded;
+        const options = [
+            { assignment: 1, coded: [leftCoded, rightCoded] },
+            { assignment: LEFT_SIDE, coded: [leftCoded, sideCoded] },
+            { assignment: SIDE_RIGHT, coded: [sideCoded, rightCoded] },
+            { assignment: MID_SIDE, coded: [midCoded, sideCoded] },
+        ];
+        const cost = (option: typeof options[number]) => option.coded.reduce((sum, c) => sum + c.plan.bits, 0);
+        const best = options.reduce((a, b) => (cost(b) < cost(a) ? b : a));
+        assignment = best.assignment;
+        coded = best.coded;
+    }
+
+    const writer = new BitWriter();
+    writer.write(0xfff8, 16); // sync code, fixed block size
+    writer.write(0b0111, 4); // block size - 1 follows as 16 bits
+    // Every frame carries its own sample rate, so streaming decoders don't need STREAMINFO
+    const rateCode = SAMPLE_RATE_CODES[sampleRate]
+        ?? (sampleRate < 0x10000 ? 0b1101 : sampleRate % 10 === 0 && sampleRate / 10 < 0x10000 ? 0b1110 : 0b0000);
+    writer.write(rateCode, 4);
+    writer.write(assignment, 4);
+    writer.write(bitDepth === 24 ? 0b110 : 0b100, 3);
+    writer.write(0, 1);
+    writeFrameNumber(writer, frameNumber);
+    writer.write(blockSize - 1, 16);
+    if (rateCode === 0b1101) writer.write(sampleRate, 16);
+    if (rateCode === 0b1110) writer.write(sampleRate / 10, 16);
+    writer.write(crc8(writer.toBytes()), 8);
+
+    for (const channel of coded) {
+        writeSubframe(writer, channel.samples, channel.bitDepth, channel.plan);
+    }
+    writer.alignToByte();
+    writer.write(crc16(writer.toBytes()), 16);
+    return writer.toBytes();
+}
+
+// Metadata block types callers can add after STREAMINFO
+export const FLAC_VORBIS_COMMENT = 4;
+export const FLAC_PICTURE = 6;
+
+export interface FlacMetadataBlock {
+    type: number;
+    body: Uint8Array;
+}
+
+/**
+ * A metadata block with its 4-byte header
+ */
+function metadataBlock(type: number, body: Uint8Array, isLast: boolean): Uint8Array {
+    const writer = new BitWriter();
+    writer.write(isLast ? 1 : 0, 1);
+    writer.write(type, 7);
+    writer.write(body.length, 24);
+    writer.writeBytes(body);
+    return writer.toBytes();
+}
+
+/**
+ * Encode a FLAC file
+ * @param channels - Integer samples (from quantize), one array per channel (up to 8)
+ * @param sampleRate - Sample rate
+ * @param bitDepth - 16 or 24
+ * @param onProgress - Called with 0-1 as frames are encoded
+ * @param blocks - Metadata blocks (tags, pictures) to write after STREAMINFO
+ * @returns The file as a list of byte chunks (for a Blob)
+ */
+export function encodeFlac(
+    channels: Int32Array[],
+    sampleRate: number,
+    bitDepth: number,
+    onProgress?: (fraction: number) => void,
+    blocks: FlacMetadataBlock[] = []
+): Uint8Array[] {
+    const length = channels[0]?.length ?? 0;
+
+    const streamInfo = new BitWriter();
+    streamInfo.write(BLOCK_SIZE, 16); // min block size
+    streamInfo.write(BLOCK_SIZE, 16); // max block size
+    streamInfo.write(0, 24); // min frame size (unknown)
+    streamInfo.write(0, 24); // max frame size (unknown)
+    streamInfo.write(sampleRate, 20);
+    streamInfo.write(channels.length - 1, 3);
+    streamInfo.write(bitDepth - 1, 5);
+    streamInfo.write(length, 36);
+    for (let i = 0; i < 4; i++) streamInfo.write(0, 32); // MD5 (0 = not computed)
+
+    const parts: Uint8Array[] = [
+        new Uint8Array([0x66, 0x4c, 0x61, 0x43]), // fLaC
+        metadataBlock(0, streamInfo.toBytes(), blocks.length === 0),
+        ...blocks.map((block, index) => metadataBlock(block.type, block.body, index === blocks.length - 1)),
+    ];
+
+    const frameCount = Math.ceil(length / BLOCK_SIZE);
+    for (let frame = 0; frame < frameCount; frame++) {
+        const start = frame * BLOCK_SIZE;
+        const end = Math.min(length, start + BLOCK_SIZE);
+        parts.push(encodeFrame(channels.map(channel => channel.subarray(start, end)), frame, sampleRate, bitDepth));
+        if (onProgress && frame % 64 === 0) onProgress(frame / frameCount);
+    }
+    return parts;
+}
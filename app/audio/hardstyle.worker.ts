@@ -0,0 +1,159 @@
+// Analysis/render worker
+// Keeps the long frame and mixing loops off the main thread so the UI stays animated
+
+import { BanificationScore, computeBanification, RhythmAnalysis } from './analysis';
+import { getEssentia } from './loader';
+import { encodeAudio, ExportSettings } from './export';
+import { downmixToMono } from './mixer';
+import { applyMaster, MasterReport, MasterSettings } from './master';
+import { TrackMetadata } from './metadata';
+import { KickRegion, planKickRegions } from './placement';
+import { HardstyleOptions } from './options';
+import { ScoringProfile } from './profiles';
+import { HardstyleProgress } from './progress';
+import { renderHardstyle } from './render';
+
+/**
+ * A mono sample as it crosses the worker boundary
+ */
+export interface TransferredSample {
+    sampleRate: number;
+    data: Float32Array;
+}
+
+export type JobRequest =
+    | { type: 'analyze'; channels: Float32Array[]; sampleRate: number; profile: ScoringProfile }
+    | {
+        type: 'render';
+        channels: Float32Array[];
+        sampleRate: number;
+        rhythm: RhythmAnalysis | null;
+        kick: TransferredSample | null; // null for the synthesized kick
+        tock: TransferredSample;
+        settings: HardstyleOptions;
+    }
+    | {
+        type: 'encode';
+        channels: Float32Array[];
+        sampleRate: number;
+        settings: ExportSettings;
+        metadata: TrackMetadata | null;
+    }
+    | { type: 'master'; channels: Float32Array[]; sampleRate: number; settings: MasterSettings }
+    | { type: 'regions'; channels: Float32Array[]; sampleRate: number; rhythm: RhythmAnalysis }; // channels: one mono downmix
+
+export interface AnalyzeResult {
+    score: BanificationScore;
+    rhythm: RhythmAnalysis;
+}
+
+export interface RenderResult {
+    channels: Float32Array[];
+    rhythm: RhythmAnalysis;
+    master: MasterReport;
+}
+
+export interface EncodeResult {
+    blob: Blob;
+}
+
+export interface MasterResult {
+    channels: Float32Array[];
+    master: MasterReport;
+}
+
+export interface RegionsResult {
+    regions: KickRegion[];
+}
+
+export type WorkerMessage =
+    | { id: number; type: 'progress'; progress: HardstyleProgress }
+    | { id: number; type: 'result'; result: AnalyzeResult | RenderResult | EncodeResult | MasterResult | RegionsResult }
+    | { id: number; type: 'error'; error: string };
+
+const ctx = self as unknown as Worker;
+
+// Don't flood the main thread: only forward progress when something visible changes
+let lastPercent = -1;
+let lastMessage = '';
+
+function post(message: WorkerMessage, transfer: Transferable[] = []): void {
+    ctx.postMessage(message, transfer);
+}
+
+function toDecoded(sample: TransferredSample) {
+    return { sampleRate: sample.sampleRate, getChannelData: () => sample.data };
+}
+
+ctx.onmessage = async (event: MessageEvent<{ id: number; request: JobRequest }>) => {
+    const { id, request } = event.data;
+    lastPercent = -1;
+    lastMessage = '';
+
+    const report = (progress: HardstyleProgress) => {
+        const percent = Math.round(progress.fraction * 100);
+        if (percent === lastPercent && progress.message === lastMessage) return;
+        lastPercent = percent;
+        lastMessage = progress.message;
+        post({ id, type: 'progress', progress });
+    };
+
+    try {
+        // Encoding doesn't need Essentia
+        if (request.type === 'encode') {
+            const blob = await encodeAudio(request.channels, request.sampleRate, request.settings, report, request.metadata);
+            post({ id, type: 'result', result: { blob } });
+            return;
+        }
+
+        // Nor does section-aware placement for the live preview
+        if (request.type === 'regions') {
+            const { regions } = planKickRegions(request.channels[0], request.sampleRate, request.rhythm);
+            post({ id, type: 'result', result: { regions } });
+            return;
+        }
+
+        // Nor does the master bus on a live preview print
+        if (request.type === 'master') {
+            const framesTotal = request.channels[0]?.length ?? 0;
+            const master = applyMaster(request.channels, request.sampleRate, request.settings, fraction =>
+                report({
+                    stage: 'master',
+                    message: 'MASTERING FOR THE MAINSTAGE... 🔊',
+                    fraction,
+                    framesProcessed: Math.round(fraction * framesTotal),
+                    framesTotal,
+                }));
+            report({ stage: 'done', message: 'FINAL BOSS MODE ACTIVATED... 🎮', fraction: 1 });
+            post({ id, type: 'result', result: { channels: request.channels, master } }, request.channels.map(channel => channel.buffer));
+            return;
+        }
+
+        const essentia = await getEssentia();
+
+        if (request.type === 'analyze') {
+            const mono = downmixToMono({
+                numberOfChannels: request.channels.length,
+                length: request.channels[0].length,
+                getChannelData: channel => request.channels[channel],
+            });
+            const result = computeBanification(essentia, mono, request.sampleRate, request.profile, report);
+            post({ id, type: 'result', result });
+        } else {
+            const result = renderHardstyle(
+                essentia,
+                request.channels,
+                request.sampleRate,
+                request.rhythm,
+                request.kick && toDecoded(request.kick),
+                toDecoded(request.tock),
+                request.settings,
+                report
+            );
+            post({ id, type: 'result', result }, result.channels.map(channel => channel.buffer));
+        }
+    } catch (error) {
+        console.error('[WORKER] Job failed:', error);
+        post({ id, type: 'error', error: (error as any)?.message ?? String(error) });
+    }
+};
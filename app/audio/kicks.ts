@@ -0,0 +1,88 @@
+// Kick library
+// One bundled hardstyle kick (hskick.wav) as is and through a couple of DSP shapings, the tick,
+// plus user-uploaded kicks, all brought to the track's sample rate
+
+import { ResampleQuality, toTrackRate } from './resample';
+
+export interface KickDefinition {
+    id: string;
+    label: string;
+    file: string; // relative to /public in the browser and to the project root on the server
+    shape?: (samples: Float32Array, sampleRate: number) => Float32Array;
+}
+
+export const CUSTOM_KICK = 'custom';
+// kickSample id for the procedural kick (synth.ts), nothing to load
+export const SYNTH_KICK = 'synth';
+
+/**
+ * Cut the tail after `length` seconds with a short fade so it doesn't click
+ */
+function gate(samples: Float32Array, sampleRate: number, length: number, fade: number): Float32Array {
+    const gateEnd = Math.min(samples.length, Math.floor(length * sampleRate));
+    const fadeSamples = Math.max(1, Math.floor(fade * sampleRate));
+    const output = samples.slice(0, gateEnd);
+    for (let i = 0; i < fadeSamples && i < gateEnd; i++) {
+        output[gateEnd - 1 - i] *= i / fadeSamples;
+    }
+    return output;
+}
+
+/**
+ * Rounder, warmer kick: one-pole lowpass into a gentle tanh saturation
+ */
+function euphoric(samples: Float32Array, sampleRate: number): Float32Array {
+    const cutoff = 2500;
+    const coef = Math.exp((-2 * Math.PI * cutoff) / sampleRate);
+    const output = new Float32Array(samples.length);
+    let state = 0;
+    for (let i = 0; i < samples.length; i++) {
+        state = samples[i] * (1 - coef) + state * coef;
+        output[i] = Math.tanh(state * 1.5) / Math.tanh(1.5);
+    }
+    return output;
+}
+
+export const KICK_LIBRARY: KickDefinition[] = [
+    { id: 'raw', label: 'Hardstyle kick', file: 'hskick.wav' },
+    { id: 'euphoric', label: 'Hardstyle kick, warmed up', file: 'hskick.wav', shape: euphoric },
+    { id: 'gated', label: 'Hardstyle kick, gated short', file: 'hskick.wav', shape: (samples, sampleRate) => gate(samples, sampleRate, 0.12, 0.005) },
+    { id: 'tick', label: 'Tick', file: 'tick.wav' },
+];
+
+export const DEFAULT_KICK = 'raw';
+
+/**
+ * Look up a bundled kick, falling back to the default one
+ */
+export function getKick(id: string): KickDefinition {
+    return KICK_LIBRARY.find(kick => kick.id === id) ?? KICK_LIBRARY.find(kick => kick.id === DEFAULT_KICK)!;
+}
+
+/**
+ * Which library kick to use for a kickSample setting
+ * @param kickSample - Library id or CUSTOM_KICK
+ * @param hasCustomKick - Whether a kick was uploaded
+ * @returns The library entry, or null when the uploaded kick should be used
+ */
+export function resolveKick(kickSample: string, hasCustomKick: boolean): KickDefinition | null {
+    return kickSample === CUSTOM_KICK && hasCustomKick ? null : getKick(kickSample);
+}
+
+/**
+ * Turn a decoded kick into the mono samples that get mixed
+ * @param decoded - The decoded kick (first channel is used)
+ * @param kick - Library entry whose shaping to apply, if any
+ * @param trackSampleRate - Sample rate the kick will be mixed at
+ * @param quality - Resampling quality if the rates differ
+ * @returns Mono kick samples at the track's sample rate
+ */
+export function prepareKick(
+    decoded: { sampleRate: number; getChannelData(channel: number): Float32Array },
+    kick: KickDefinition | null,
+    trackSampleRate: number,
+    quality: ResampleQuality = 'sinc'
+): Float32Array {
+    const samples = toTrackRate(decoded, trackSampleRate, quality);
+    return kick?.shape ? kick.shape(samples, trackSampleRate) : samples;
+}
@@ -0,0 +1,119 @@
+// Extra hardstyle layers
+// Reverse-bass offbeats and a screech stab on every bar's downbeat, synthesized in the track's
+// key and laid on the same beat grid as the kicks
+
+import { KickPattern, PatternLayer } from './pattern';
+import { noteToFrequency } from './tuning';
+
+export interface LayerSettings {
+    reverseBass: boolean; // swelling bass between every pair of kicks
+    reverseBassGain: number; // relative to the kick gain, like the kick and tock layers
+    screech: boolean; // distorted lead stab on bar downbeats
+    screechGain: number; // relative to the kick gain
+}
+
+export const DEFAULT_LAYERS: LayerSettings = {
+    reverseBass: false,
+    reverseBassGain: 1,
+    screech: false,
+    screechGain: 0.6,
+};
+
+// Octaves the layers are played in: sub bass, and up where a lead cuts through
+const BASS_OCTAVE = 1;
+const SCREECH_OCTAVE = 4;
+// Waveshaper drive on the reverse bass (enough to square it off a little)
+const BASS_DRIVE = 4;
+// Screech: detuned voices (semitones), a drop from an octave up into the note, then a one-beat decay
+const SCREECH_DETUNE = [-0.12, 0, 0.12];
+const SCREECH_GLIDE = 0.03;
+const SCREECH_DRIVE = 3;
+// Fades at both ends so the layers don't click
+const EDGE_FADE = 0.005;
+
+/**
+ * Raised-cosine fades in and out at the ends of a sample, in place
+ */
+function fadeEdges(samples: Float32Array, sampleRate: number): Float32Array {
+    const fadeSamples = Math.min(Math.floor(samples.length / 2), Math.max(1, Math.round(EDGE_FADE * sampleRate)));
+    for (let i = 0; i < fadeSamples; i++) {
+        const gain = 0.5 - 0.5 * Math.cos((Math.PI * i) / fadeSamples);
+        samples[i] *= gain;
+        samples[samples.length - 1 - i] *= gain;
+    }
+    return samples;
+}
+
+/**
+ * One reverse-bass hit: a distorted sine on the root that swells up from silence,
+ * half a beat long so it ends right on the next kick
+ * @param root - Root note of the track, e.g. 'F#'
+ * @param beatSeconds - Length of one beat
+ * @param sampleRate - Track sample rate
+ */
+export function synthesizeReverseBass(root: string, beatSeconds: number, sampleRate: number): Float32Array {
+    const frequency = noteToFrequency(root, BASS_OCTAVE) ?? noteToFrequency('F', BASS_OCTAVE)!;
+    const length = Math.max(1, Math.round((beatSeconds / 2) * sampleRate));
+    const output = new Float32Array(length);
+    const norm = Math.tanh(BASS_DRIVE);
+    for (let i = 0; i < length; i++) {
+        const swell = i / length;
+        const tone = Math.tanh(BASS_DRIVE * Math.sin((2 * Math.PI * frequency * i) / sampleRate)) / norm;
+        output[i] = tone * swell * swell;
+    }
+    return fadeEdges(output, sampleRate);
+}
+
+/**
+ * One screech stab: detuned saws dropping an octave into the root, distorted, decaying over a beat
+ * @param root - Root note of the track
+ * @param beatSeconds - Length of one beat
+ * @param sampleRate - Track sample rate
+ */
+export function synthesizeScreech(root: string, beatSeconds: number, sampleRate: number): Float32Array {
+    const frequency = noteToFrequency(root, SCREECH_OCTAVE) ?? noteToFrequency('F', SCREECH_OCTAVE)!;
+    const length = Math.max(1, Math.round(beatSeconds * sampleRate));
+    const output = new Float32Array(length);
+    const phases = SCREECH_DETUNE.map(() => Math.random());
+    const norm = Math.tanh(SCREECH_DRIVE);
+
+    for (let i = 0; i < length; i++) {
+        const t = i / sampleRate;
+        const glide = Math.pow(2, Math.exp(-t / SCREECH_GLIDE));
+        let saw = 0;
+        SCREECH_DETUNE.forEach((detune, voice) => {
+            phases[voice] = (phases[voice] + (frequency * glide * Math.pow(2, detune / 12)) / sampleRate) % 1;
+            saw += 2 * phases[voice] - 1;
+        });
+        const decay = Math.exp((-3 * i) / length);
+        output[i] = (Math.tanh((SCREECH_DRIVE * saw) / SCREECH_DETUNE.length) / norm) * decay;
+    }
+    return fadeEdges(output, sampleRate);
+}
+
+/**
+ * A pattern holding the enabled layers, for schedulePattern and renderPattern
+ * Layer samples are keyed 'reverseBass' and 'screech'
+ * @param settings - Which layers are on and how loud
+ * @returns The pattern, or null when every layer is off
+ */
+export function layerPattern(settings: LayerSettings): KickPattern | null {
+    const layers: PatternLayer[] = [];
+    if (settings.reverseBass) {
+        layers.push({
+            name: 'reverse bass',
+            sample: 'reverseBass',
+            gain: settings.reverseBassGain,
+            steps: [0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 1, 0],
+        });
+    }
+    if (settings.screech) {
+        layers.push({
+            name: 'screech',
+            sample: 'screech',
+            gain: settings.screechGain,
+            steps: [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+        });
+    }
+    return layers.length ? { name: 'Layers', stepsPerBar: 16, beatsPerBar: 4, layers } : null;
+}
@@ -0,0 +1,544 @@
+// Live preview
+// Plays the track through Web Audio nodes: pattern hits are AudioBufferSourceNodes scheduled on the
+// beat grid and the sidechain is GainNode automation, so option changes are heard right away.
+// The same graph and scheduling render through an OfflineAudioContext to print the preview
+
+import type { RhythmAnalysis } from './analysis';
+import { getAudioContext } from './loader';
+import { panGains } from './mixer';
+import { HardstyleOptions } from './options';
+import { PatternEvent } from './pattern';
+import { KickRegion, regionGain } from './placement';
+import { DecodedSample, planHits, preparePatternSamples } from './render';
+import { duckingSteps, DuckStep } from './sidechain';
+import { conformRatio, nightcoreSemitones, scaleRhythm } from './tempo';
+import { transposeNote } from './tuning';
+
+/**
+ * What the preview plays from: the decoded track, its beat grid and key, and the decoded samples
+ */
+export interface LiveSession {
+    track: AudioBuffer;
+    rhythm: RhythmAnalysis; // beat grid of the original
+    trackKey: string; // root note from analysis
+    regions: KickRegion[]; // where section-aware placement kicks, planned in the worker
+    kick: DecodedSample | null; // null for the synthesized kick
+    tock: DecodedSample;
+}
+
+/**
+ * One pattern hit, ready to schedule
+ */
+interface LiveHit {
+    time: number; // seconds into the preview
+    sample: string; // key into LivePlan.samples
+    gain: number; // layer gain times velocity
+    underDucking: boolean; // reverse bass/screech get ducked with the track, kicks and tocks don't
+}
+
+/**
+ * Everything scheduled for one set of options
+ */
+interface LivePlan {
+    rate: number; // playback rate of the track (nightcore conform)
+    duration: number; // seconds, after the conform
+    hits: LiveHit[];
+    ducking: DuckStep[];
+    samples: Record<string, AudioBuffer>;
+}
+
+/**
+ * The nodes of one preview
+ * track → original gain → mix (+ layers → layer gain) → [crossover] → ducking → out
+ * hits → kick gain → per-channel pan gains → out
+ */
+interface LiveGraph {
+    source: AudioBufferSourceNode;
+    trackGain: GainNode;
+    mix: GainNode;
+    duck: GainNode;
+    crossover: BiquadFilterNode[]; // low-band ducking only
+    layerGain: GainNode; // kick gain for the layers under the ducking
+    hitGain: GainNode;
+    pan: GainNode[];
+    out: GainNode;
+}
+
+// Seconds of hits scheduled ahead of the playhead, and how often the scheduler tops that up
+const LOOKAHEAD_SECONDS = 0.2;
+const SCHEDULE_INTERVAL_MS = 25;
+// Delay before a (re)started preview begins, so its first hits are scheduled in time
+const START_DELAY = 0.05;
+// Time constant for parameter changes while playing (gains, pan, crossover)
+const PARAM_SMOOTHING = 0.02;
+// Fade when the preview stops or restarts
+const FADE_SECONDS = 0.01;
+// Two cascaded Butterworth sections make the Linkwitz-Riley split of the offline render
+const BUTTERWORTH_Q = Math.SQRT1_2;
+
+/**
+ * Playback rate of the track: nightcore conform is just a faster playback.
+ * Time-stretch needs the full render, so the preview plays those settings at the original tempo
+ */
+function liveRate(session: LiveSession, settings: HardstyleOptions): number {
+    if (settings.conform !== 'nightcore') return 1;
+    return conformRatio(settings.trackBpm ?? session.rhythm.bpm, settings.targetBpm);
+}
+
+/**
+ * The pattern samples as AudioBuffers on a context
+ */
+function liveSamples(
+    context: BaseAudioContext,
+    session: LiveSession,
+    settings: HardstyleOptions,
+    rate: number
+): Record<string, AudioBuffer> {
+    const sampleRate = session.track.sampleRate;
+    // Nightcore drags the key up with the tempo
+    const root = rate === 1 ? session.trackKey : transposeNote(session.trackKey, nightcoreSemitones(rate));
+    const data = preparePatternSamples(session.kick, session.tock, settings, sampleRate, 60 / (session.rhythm.bpm * rate), () => root);
+
+    const buffers: Record<string, AudioBuffer> = {};
+    for (const [name, samples] of Object.entries(data)) {
+        buffers[name] = context.createBuffer(1, Math.max(1, samples.length), sampleRate);
+        buffers[name].getChannelData(0).set(samples);
+    }
+    return buffers;
+}
+
+/**
+ * Hits and ducking for a set of options
+ */
+function planLive(
+    session: LiveSession,
+    settings: HardstyleOptions,
+    rate: number,
+    samples: Record<string, AudioBuffer>
+): LivePlan {
+    const duration = session.track.duration / rate;
+    const regions = settings.placement === 'sections'
+        ? session.regions.map(region => ({ start: region.start / rate, end: region.end / rate }))
+        : null;
+    const { events, layerEvents } = planHits(scaleRhythm(session.rhythm, rate), settings, regions, duration);
+
+    const toHit = (event: PatternEvent, underDucking: boolean): LiveHit => ({
+        time: event.time,
+        sample: event.layer.sample,
+        gain: event.layer.gain * event.velocity,
+        underDucking,
+    });
+    const hits = [...layerEvents.map(event => toHit(event, true)), ...events.map(event => toHit(event, false))]
+        .sort((a, b) => a.time - b.time);
+
+    const ducking = duckingSteps(
+        events
+            .filter(event => event.layer.ducks)
+            .map(event => ({
+                time: event.time,
+                amount: regions ? regionGain(regions, event.time, settings.crossfade, duration) : 1,
+            }))
+            .sort((a, b) => a.time - b.time),
+        settings.sidechain
+    );
+    return { rate, duration, hits, ducking, samples };
+}
+
+/**
+ * Build the node graph for a preview (the track source isn't started)
+ */
+function buildGraph(
+    context: BaseAudioContext,
+    session: LiveSession,
+    plan: LivePlan,
+    settings: HardstyleOptions,
+    destination: AudioNode
+): LiveGraph {
+    const channelCount = session.track.numberOfChannels;
+    const source = context.createBufferSource();
+    source.buffer = session.track;
+    source.playbackRate.value = plan.rate;
+
+    const trackGain = context.createGain();
+    const mix = context.createGain();
+    const duck = context.createGain();
+    const out = context.createGain();
+    const layerGain = context.createGain();
+    source.connect(trackGain).connect(mix);
+    layerGain.connect(mix);
+    duck.connect(out);
+
+    // Low band: only what's under the crossover goes through the ducking
+    const crossover: BiquadFilterNode[] = [];
+    if (settings.sidechain.band === 'low') {
+        const filter = (type: BiquadFilterType) => {
+            const node = context.createBiquadFilter();
+            node.type = type;
+            node.Q.value = BUTTERWORTH_Q;
+            crossover.push(node);
+            return node;
+        };
+        mix.connect(filter('lowpass')).connect(filter('lowpass')).connect(duck);
+        mix.connect(filter('highpass')).connect(filter('highpass')).connect(out);
+    } else {
+        mix.connect(duck);
+    }
+
+    // Hits are mono: one gain per output channel does the panning, like mixSample
+    const hitGain = context.createGain();
+    hitGain.channelCount = 1;
+    hitGain.channelCountMode = 'explicit';
+    const merger = context.createChannelMerger(channelCount);
+    const pan = Array.from({ length: channelCount }, (_, channel) => {
+        const gain = context.createGain();
+        hitGain.connect(gain).connect(merger, 0, channel);
+        return gain;
+    });
+    merger.connect(out);
+    out.connect(destination);
+
+    const graph = { source, trackGain, mix, duck, crossover, layerGain, hitGain, pan, out };
+    applyParams(context, graph, settings, false);
+    return graph;
+}
+
+/**
+ * Set the graph's static parameters, gliding to them if the preview is playing
+ */
+function applyParams(context: BaseAudioContext, graph: LiveGraph, settings: HardstyleOptions, smooth: boolean): void {
+    const set = (param: AudioParam, value: number) => {
+        if (smooth) {
+            param.setTargetAtTime(value, context.currentTime, PARAM_SMOOTHING);
+        } else {
+            param.value = value;
+        }
+    };
+    set(graph.trackGain.gain, settings.originalGain);
+    set(graph.hitGain.gain, settings.kickGain);
+    set(graph.layerGain.gain, settings.kickGain);
+    panGains(settings.kickPan, graph.pan.length).forEach((gain, channel) => set(graph.pan[channel].gain, gain));
+    graph.crossover.forEach(filter => set(filter.frequency, settings.sidechain.crossover));
+}
+
+/**
+ * Start one hit
+ */
+function scheduleHit(context: BaseAudioContext, graph: LiveGraph, plan: LivePlan, hit: LiveHit, when: number): AudioBufferSourceNode | null {
+    const buffer = plan.samples[hit.sample];
+    if (!buffer) return null;
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    const gain = context.createGain();
+    gain.gain.value = hit.gain;
+    source.connect(gain).connect(hit.underDucking ? graph.layerGain : graph.hitGain);
+    source.start(when);
+    return source;
+}
+
+/**
+ * Render the preview offline: the same graph and scheduling, all at once
+ * (no master bus, that runs on the result like it does after the full render)
+ * @param session - Track, grid, key and samples
+ * @param settings - Resolved processing options
+ * @returns The rendered channels
+ */
+export async function renderLive(session: LiveSession, settings: HardstyleOptions): Promise<Float32Array[]> {
+    const { track } = session;
+    const rate = liveRate(session, settings);
+    const context = new OfflineAudioContext(track.numberOfChannels, Math.ceil(track.length / rate), track.sampleRate);
+    const plan = planLive(session, settings, rate, liveSamples(context, session, settings, rate));
+    const graph = buildGraph(context, session, plan, settings, context.destination);
+
+    graph.source.start(0);
+    plan.ducking.forEach(step => graph.duck.gain.setTargetAtTime(step.target, step.time, step.timeConstant));
+    plan.hits.forEach(hit => scheduleHit(context, graph, plan, hit, hit.time));
+
+    const rendered = await context.startRendering();
+    return Array.from({ length: rendered.numberOfChannels }, (_, channel) => rendered.getChannelData(channel));
+}
+
+/**
+ * Real-time preview on the shared AudioContext: a scheduler tops up the next LOOKAHEAD_SECONDS
+ * of hits and ducking, and option changes reschedule everything that hasn't started yet
+ */
+export class LivePreview {
+    private context: AudioContext;
+    private session: LiveSession | null = null;
+    private settings: HardstyleOptions | null = null;
+    private plan: LivePlan | null = null;
+    private sampleCache: { key: string; samples: Record<string, AudioBuffer> } | null = null;
+    private graph: LiveGraph | null = null;
+    private limiter: DynamicsCompressorNode | null = null;
+    private pending: { source: AudioBufferSourceNode; when: number }[] = [];
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private offset = 0; // preview position (seconds) at startedAt, or the paused position
+    private startedAt = 0; // context time the track started
+    private hitIndex = 0; // next hit to schedule
+    private duckIndex = 0; // next ducking step to schedule
+    private listeners = new Set<(playing: boolean) => void>();
+
+    constructor(context: AudioContext = getAudioContext()) {
+        this.context = context;
+    }
+
+    isPlaying(): boolean {
+        return this.graph !== null;
+    }
+
+    /**
+     * Listen for play/stop
+     * @returns A function that unsubscribes
+     */
+    subscribe(listener: (playing: boolean) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    getDuration(): number {
+        return this.plan?.duration ?? 0;
+    }
+
+    /**
+     * Playhead in seconds of the preview
+     */
+    getPosition(): number {
+        if (!this.graph) return this.offset;
+        const elapsed = Math.max(0, this.context.currentTime - this.startedAt);
+        return Math.min(this.offset + elapsed, this.getDuration());
+    }
+
+    /**
+     * Switch to another track, grid or set of decoded samples
+     */
+    setSession(session: LiveSession | null): void {
+        const playing = this.isPlaying();
+        const position = this.getPosition();
+        this.stopGraph();
+        this.session = session;
+        this.sampleCache = null;
+        this.plan = this.buildPlan();
+        this.offset = Math.min(position, this.getDuration());
+        if (playing && this.plan) {
+            this.startGraph(this.offset);
+        } else if (playing) {
+            this.notify();
+        }
+    }
+
+    /**
+     * New options: parameters glide, hits and ducking that haven't started are rescheduled
+     */
+    update(settings: HardstyleOptions): void {
+        const previous = this.settings;
+        const previousRate = this.plan?.rate ?? 1;
+        const position = this.getPosition();
+        this.settings = settings;
+        this.plan = this.buildPlan();
+        if (!this.plan) return;
+
+        // Same moment of the original at the new speed
+        const mapped = Math.min(position * (previousRate / this.plan.rate), this.plan.duration);
+        if (!this.graph) {
+            this.offset = mapped;
+            return;
+        }
+        // Speed or crossover wiring changed: rebuild the graph where the playhead is
+        if (this.plan.rate !== previousRate || previous?.sidechain.band !== settings.sidechain.band) {
+            this.startGraph(mapped);
+            return;
+        }
+        applyParams(this.context, this.graph, settings, true);
+        this.reschedule(position);
+    }
+
+    async play(): Promise<void> {
+        if (this.graph || !this.plan) return;
+        // Browsers start the context suspended until a user gesture
+        if (this.context.state === 'suspended') await this.context.resume();
+        this.startGraph(this.offset >= this.plan.duration ? 0 : this.offset);
+        this.notify();
+    }
+
+    pause(): void {
+        if (!this.graph) return;
+        this.offset = this.getPosition();
+        this.stopGraph();
+        this.notify();
+    }
+
+    toggle(): Promise<void> {
+        if (this.graph) {
+            this.pause();
+            return Promise.resolve();
+        }
+        return this.play();
+    }
+
+    /**
+     * Jump to a position, playing on from there if already playing
+     */
+    seek(seconds: number): void {
+        this.offset = Math.max(0, Math.min(seconds, this.getDuration()));
+        if (this.graph) this.startGraph(this.offset);
+    }
+
+    /**
+     * Stop and let go of the session (the context is shared, so it stays open)
+     */
+    dispose(): void {
+        const playing = this.isPlaying();
+        this.stopGraph();
+        this.session = null;
+        this.plan = null;
+        this.sampleCache = null;
+        this.offset = 0;
+        if (playing) this.notify();
+    }
+
+    private buildPlan(): LivePlan | null {
+        const { session, settings } = this;
+        if (!session || !settings) return null;
+        const rate = liveRate(session, settings);
+
+        // Samples only change with the kick, tuning and layer settings, not with gains or the pattern
+        const key = JSON.stringify([
+            settings.kickSample,
+            settings.kickSynth,
+            settings.tuneToKey,
+            settings.resampleQuality,
+            settings.layers.reverseBass,
+            settings.layers.screech,
+            rate,
+        ]);
+        if (this.sampleCache?.key !== key) {
+            this.sampleCache = { key, samples: liveSamples(this.context, session, settings, rate) };
+        }
+        return planLive(session, settings, rate, this.sampleCache.samples);
+    }
+
+    /**
+     * Safety limiter between the preview and the speakers (the print goes through the real master bus)
+     */
+    private getLimiter(): DynamicsCompressorNode {
+        if (!this.limiter) {
+            this.limiter = this.context.createDynamicsCompressor();
+            this.limiter.threshold.value = -3;
+            this.limiter.knee.value = 0;
+            this.limiter.ratio.value = 20;
+            this.limiter.attack.value = 0.002;
+            this.limiter.release.value = 0.1;
+            this.limiter.connect(this.context.destination);
+        }
+        return this.limiter;
+    }
+
+    private startGraph(position: number): void {
+        const { session, settings, plan } = this;
+        this.stopGraph();
+        if (!session || !settings || !plan) return;
+
+        const graph = buildGraph(this.context, session, plan, settings, this.getLimiter());
+        const start = this.context.currentTime + START_DELAY;
+        graph.out.gain.setValueAtTime(0, start);
+        graph.out.gain.linearRampToValueAtTime(1, start + FADE_SECONDS);
+        graph.source.start(start, position * plan.rate);
+
+        this.graph = graph;
+        this.offset = position;
+        this.startedAt = start;
+        this.seekSchedule(position);
+        this.tick();
+        this.timer = setInterval(this.tick, SCHEDULE_INTERVAL_MS);
+    }
+
+    private stopGraph(): void {
+        if (this.timer !== null) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+        if (!this.graph) return;
+
+        const { source, out } = this.graph;
+        const now = this.context.currentTime;
+        out.gain.cancelScheduledValues(now);
+        out.gain.setValueAtTime(out.gain.value, now);
+        out.gain.linearRampToValueAtTime(0, now + FADE_SECONDS);
+        source.stop(now + FADE_SECONDS);
+        this.pending.forEach(({ source: hit }) => hit.stop(now + FADE_SECONDS));
+        setTimeout(() => out.disconnect(), (FADE_SECONDS + START_DELAY) * 1000 + 50);
+
+        this.graph = null;
+        this.pending = [];
+    }
+
+    /**
+     * Point the scheduler at the first hit and ducking step after a position
+     */
+    private seekSchedule(position: number): void {
+        const plan = this.plan!;
+        this.hitIndex = plan.hits.findIndex(hit => hit.time > position);
+        if (this.hitIndex === -1) this.hitIndex = plan.hits.length;
+        this.duckIndex = plan.ducking.findIndex(step => step.time >= position);
+        if (this.duckIndex === -1) this.duckIndex = plan.ducking.length;
+    }
+
+    /**
+     * Drop everything that hasn't started yet and schedule the new plan from the playhead
+     */
+    private reschedule(position: number): void {
+        const graph = this.graph!;
+        const now = this.context.currentTime;
+        this.pending = this.pending.filter(({ source, when }) => {
+            if (when <= now) return true;
+            source.stop();
+            return false;
+        });
+        const gain = graph.duck.gain;
+        gain.cancelScheduledValues(now);
+        gain.setValueAtTime(gain.value, now);
+
+        this.seekSchedule(position);
+        this.tick();
+    }
+
+    /**
+     * Schedule whatever falls within the lookahead window
+     */
+    private tick = (): void => {
+        const { graph, plan } = this;
+        if (!graph || !plan) return;
+
+        const now = this.context.currentTime;
+        const position = this.getPosition();
+        if (position >= plan.duration) {
+            // Ran off the end: back to the start, stopped
+            this.stopGraph();
+            this.offset = 0;
+            this.notify();
+            return;
+        }
+
+        const until = position + LOOKAHEAD_SECONDS;
+        const when = (time: number) => Math.max(now, this.startedAt + (time - this.offset));
+        while (this.hitIndex < plan.hits.length && plan.hits[this.hitIndex].time < until) {
+            const hit = plan.hits[this.hitIndex++];
+            const start = when(hit.time);
+            const source = scheduleHit(this.context, graph, plan, hit, start);
+            if (source) this.pending.push({ source, when: start });
+        }
+        while (this.duckIndex < plan.ducking.length && plan.ducking[this.duckIndex].time < until) {
+            const step = plan.ducking[this.duckIndex++];
+            graph.duck.gain.setTargetAtTime(step.target, when(step.time), step.timeConstant);
+        }
+
+        // Forget hits that have long finished
+        this.pending = this.pending.filter(({ when: start }) => start > now - 5);
+    };
+
+    private notify(): void {
+        const playing = this.isPlaying();
+        this.listeners.forEach(listener => listener(playing));
+    }
+}
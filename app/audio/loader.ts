@@ -0,0 +1,85 @@
+"use client";
+
+// Browser loaders: one Essentia instance (per thread - the worker has its own), one
+// AudioContext, and per-File caches so analyze-then-process doesn't decode and analyze twice
+
+import type { RhythmAnalysis } from './analysis';
+
+let essentiaPromise: Promise<any> | null = null;
+let audioContext: AudioContext | null = null;
+
+const decodeCache = new WeakMap<File, Promise<AudioBuffer>>();
+const rhythmCache = new WeakMap<File, RhythmAnalysis>();
+
+/**
+ * Lazily load essentia.js and its WASM backend (only the first call does the work)
+ * @returns The shared Essentia instance
+ */
+export function getEssentia(): Promise<any> {
+    if (!essentiaPromise) {
+        essentiaPromise = (async () => {
+            // Dynamically import essentia.js for browser use
+            //@ts-ignore
+            const EssentiaModule = await import('essentia.js/dist/essentia-wasm.web.js');
+            //@ts-ignore
+            const EssentiaClass = await import('essentia.js/dist/essentia.js-core.es.js');
+
+            //@ts-ignore
+            const EssentiaWASM = await EssentiaModule.default({
+                locateFile: (file: string) => {
+                    // Tell Essentia where to find the WASM file
+                    return `/essentia-wasm.web.wasm`;
+                }
+            });
+            //@ts-ignore
+            return new EssentiaClass.default(EssentiaWASM);
+        })();
+
+        // Let the next call retry if loading failed
+        essentiaPromise.catch(() => {
+            essentiaPromise = null;
+        });
+    }
+    return essentiaPromise;
+}
+
+/**
+ * The shared AudioContext used for decoding and playback
+ */
+export function getAudioContext(): AudioContext {
+    if (!audioContext) {
+        audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    }
+    return audioContext!;
+}
+
+/**
+ * Decode an uploaded file, reusing the result for the same File object
+ * @param file - The uploaded file
+ * @returns The decoded audio
+ */
+export function decodeFile(file: File): Promise<AudioBuffer> {
+    let decoded = decodeCache.get(file);
+    if (!decoded) {
+        decoded = file.arrayBuffer().then(arrayBuffer => getAudioContext().decodeAudioData(arrayBuffer));
+        decodeCache.set(file, decoded);
+        decoded.catch(() => decodeCache.delete(file));
+    }
+    return decoded;
+}
+
+/**
+ * Beat grid that analysis already found for a file
+ * @param file - The uploaded file
+ * @returns The cached rhythm, or null if the file hasn't been analyzed
+ */
+export function getCachedRhythm(file: File): RhythmAnalysis | null {
+    return rhythmCache.get(file) ?? null;
+}
+
+/**
+ * Remember a file's beat grid so later renders can skip beat detection
+ */
+export function cacheRhythm(file: File, rhythm: RhythmAnalysis): void {
+    rhythmCache.set(file, rhythm);
+}
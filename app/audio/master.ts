@@ -0,0 +1,358 @@
+// Master bus
+// Loudness normalization, soft clip and a look-ahead brickwall limiter, so the kicks summed on
+// top of the track come out loud without hard-clipping at ±1 on export
+
+import type { Biquad } from './crossover';
+
+export interface MasterSettings {
+    enabled: boolean;
+    targetLufs: number | null; // integrated loudness to aim for, null = limiter only
+    ceiling: number; // true-peak ceiling in dBTP
+    clipDrive: number; // dB of peaks rounded off by the soft clipper before the limiter, 0 = off
+    lookahead: number; // seconds the limiter sees peaks coming
+    release: number; // seconds for the limiter to recover
+}
+
+export const DEFAULT_MASTER: MasterSettings = {
+    enabled: true,
+    targetLufs: -8,
+    ceiling: -1,
+    clipDrive: 0,
+    lookahead: 0.005,
+    release: 0.1,
+};
+
+/**
+ * Loudness of a mix, per ITU-R BS.1770
+ */
+export interface LoudnessReport {
+    integrated: number; // LUFS (-Infinity for silence)
+    truePeak: number; // dBTP
+}
+
+/**
+ * What the master bus did
+ */
+export interface MasterReport {
+    input: LoudnessReport;
+    output: LoudnessReport;
+    gain: number; // dB of makeup gain applied before the clipper and limiter
+    maxReduction: number; // dB, the limiter's deepest gain reduction
+}
+
+// BS.1770 gating blocks: 400ms, 75% overlap
+const BLOCK_SECONDS = 0.4;
+const BLOCK_STEPS = 4;
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+
+// True peak: 4x oversampling with a windowed-sinc interpolator
+const OVERSAMPLE = 4;
+const INTERPOLATOR_HALF_WIDTH = 8;
+
+// Extra passes when the limited result misses the loudness target or the true-peak ceiling
+const MAX_PASSES = 3;
+const LOUDNESS_TOLERANCE = 0.3;
+// Samples processed between progress reports
+const PROGRESS_BLOCK = 65536;
+
+const toDb = (gain: number) => 20 * Math.log10(gain);
+const fromDb = (db: number) => Math.pow(10, db / 20);
+
+/**
+ * The two K-weighting filters (head shelf and RLB high-pass) for any sample rate
+ */
+function kWeighting(sampleRate: number): Biquad[] {
+    const normalize = (b0: number, b1: number, b2: number, a0: number, a1: number, a2: number): Biquad => ({
+        b0: b0 / a0, b1: b1 / a0, b2: b2 / a0, a1: a1 / a0, a2: a2 / a0,
+    });
+
+    // High shelf, +4 dB above ~1.7 kHz (bilinear design that reproduces the spec's 48 kHz coefficients)
+    const shelfGain = 3.999843853973347;
+    const shelfQ = 0.7071752369554196;
+    let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+    const Vh = Math.pow(10, shelfGain / 20);
+    const Vb = Math.pow(Vh, 0.4996667741545416);
+    const shelf = normalize(
+        Vh + (Vb * K) / shelfQ + K * K,
+        2 * (K * K - Vh),
+        Vh - (Vb * K) / shelfQ + K * K,
+        1 + K / shelfQ + K * K,
+        2 * (K * K - 1),
+        1 - K / shelfQ + K * K
+    );
+
+    // RLB high-pass at ~38 Hz
+    const passQ = 0.5003270373238773;
+    K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+    const passA0 = 1 + K / passQ + K * K;
+    const highPass = normalize(passA0, -2 * passA0, passA0, passA0, 2 * (K * K - 1), 1 - K / passQ + K * K);
+
+    return [shelf, highPass];
+}
+
+/**
+ * Integrated loudness (BS.1770-4, gated) in LUFS
+ * @param channels - Audio, one array per channel
+ * @param sampleRate - Sample rate
+ */
+export function integratedLoudness(channels: Float32Array[], sampleRate: number): number {
+    const length = channels[0]?.length ?? 0;
+    const stepSamples = Math.round((BLOCK_SECONDS / BLOCK_STEPS) * sampleRate);
+    const steps = Math.floor(length / stepSamples);
+    if (steps < BLOCK_STEPS) return -Infinity;
+
+    // K-weighted energy per 100ms step, summed over channels. In 5.1/7.1 order channel 3 is the LFE,
+    // which BS.1770 leaves out, and the surrounds after it are weighted +1.5 dB
+    const stepEnergy = new Float64Array(steps);
+    const [shelf, highPass] = kWeighting(sampleRate);
+    const surround = channels.length >= 6;
+    channels.forEach((channel, index) => {
+        const weight = !surround || index < 3 ? 1 : index === 3 ? 0 : 1.41;
+        if (weight === 0) return;
+        let x1 = 0, x2 = 0, y1 = 0, y2 = 0, z1 = 0, z2 = 0;
+        for (let i = 0; i < steps * stepSamples; i++) {
+            const x = channel[i];
+            const y = shelf.b0 * x + shelf.b1 * x1 + shelf.b2 * x2 - shelf.a1 * y1 - shelf.a2 * y2;
+            const z = highPass.b0 * y + highPass.b1 * y1 + highPass.b2 * y2 - highPass.a1 * z1 - highPass.a2 * z2;
+            x2 = x1; x1 = x;
+            y2 = y1; y1 = y;
+            z2 = z1; z1 = z;
+            stepEnergy[Math.floor(i / stepSamples)] += weight * z * z;
+        }
+    });
+
+    const blockPower: number[] = [];
+    for (let block = 0; block + BLOCK_STEPS <= steps; block++) {
+        let sum = 0;
+        for (let step = 0; step < BLOCK_STEPS; step++) {
+            sum += stepEnergy[block + step];
+        }
+        blockPower.push(sum / (BLOCK_STEPS * stepSamples));
+    }
+
+    const loudness = (power: number) => -0.691 + 10 * Math.log10(power);
+    const mean = (powers: number[]) => powers.reduce((sum, power) => sum + power, 0) / powers.length;
+
+    const loudEnough = blockPower.filter(power => loudness(power) > ABSOLUTE_GATE);
+    if (loudEnough.length === 0) return -Infinity;
+    const relativeGate = loudness(mean(loudEnough)) + RELATIVE_GATE;
+    const gated = loudEnough.filter(power => loudness(power) > relativeGate);
+    return loudness(mean(gated));
+}
+
+let interpolators: Float32Array[] | null = null;
+
+/**
+ * Windowed-sinc kernels for the OVERSAMPLE - 1 positions between samples
+ */
+function getInterpolators(): Float32Array[] {
+    if (!interpolators) {
+        interpolators = [];
+        for (let phase = 1; phase < OVERSAMPLE; phase++) {
+            const fraction = phase / OVERSAMPLE;
+            const kernel = new Float32Array(2 * INTERPOLATOR_HALF_WIDTH);
+            for (let tap = 0; tap < kernel.length; tap++) {
+                const distance = tap - INTERPOLATOR_HALF_WIDTH + 1 - fraction;
+                const sinc = Math.sin(Math.PI * distance) / (Math.PI * distance);
+                const window = 0.5 + 0.5 * Math.cos((Math.PI * distance) / INTERPOLATOR_HALF_WIDTH);
+                kernel[tap] = sinc * window;
+            }
+            interpolators.push(kernel);
+        }
+    }
+    return interpolators;
+}
+
+/**
+ * True peak (BS.1770 annex 2, 4x oversampled) in dBTP
+ * Only looks between samples near the sample peak - inter-sample overs more than 6 dB
+ * above it don't happen in real audio
+ * @param channels - Audio, one array per channel
+ */
+export function truePeak(channels: Float32Array[]): number {
+    let samplePeak = 0;
+    for (const channel of channels) {
+        for (let i = 0; i < channel.length; i++) {
+            const value = Math.abs(channel[i]);
+            if (value > samplePeak) samplePeak = value;
+        }
+    }
+    if (samplePeak === 0) return -Infinity;
+
+    const kernels = getInterpolators();
+    const threshold = samplePeak / 2;
+    let peak = samplePeak;
+    for (const channel of channels) {
+        for (let i = INTERPOLATOR_HALF_WIDTH - 1; i + INTERPOLATOR_HALF_WIDTH < channel.length; i++) {
+            if (Math.abs(channel[i]) < threshold && Math.abs(channel[i + 1]) < threshold) continue;
+            for (const kernel of kernels) {
+                let sum = 0;
+                const first = i - INTERPOLATOR_HALF_WIDTH + 1;
+                for (let tap = 0; tap < kernel.length; tap++) {
+                    sum += channel[first + tap] * kernel[tap];
+                }
+                if (Math.abs(sum) > peak) peak = Math.abs(sum);
+            }
+        }
+    }
+    return toDb(peak);
+}
+
+/**
+ * Measure integrated loudness and true peak
+ */
+export function measureLoudness(channels: Float32Array[], sampleRate: number): LoudnessReport {
+    return {
+        integrated: integratedLoudness(channels, sampleRate),
+        truePeak: truePeak(channels),
+    };
+}
+
+/**
+ * Soft clipper: unity gain for quiet material, peaks rounded off with tanh towards
+ * `drive` dB below full scale
+ * @param channels - Processed in place
+ * @param drive - dB, 0 does nothing
+ */
+export function softClip(channels: Float32Array[], drive: number): void {
+    if (drive <= 0) return;
+    const gain = fromDb(drive);
+    for (const channel of channels) {
+        for (let i = 0; i < channel.length; i++) {
+            channel[i] = Math.tanh(channel[i] * gain) / gain;
+        }
+    }
+}
+
+/**
+ * Look-ahead brickwall limiter, stereo-linked
+ * The gain needed at each sample is min-filtered over the look-ahead window and then
+ * averaged over the same length, which ramps it down ahead of every peak and never lets one through
+ * @param channels - Processed in place
+ * @param sampleRate - Sample rate
+ * @param ceiling - Sample-peak ceiling in dBFS
+ * @param lookahead - Seconds
+ * @param release - Seconds to recover (~63%)
+ * @param onProgress - Called with 0-1 as blocks of samples are processed (three passes over the track)
+ * @returns The deepest gain reduction in dB (0 or negative)
+ */
+export function limit(
+    channels: Float32Array[],
+    sampleRate: number,
+    ceiling: number,
+    lookahead: number,
+    release: number,
+    onProgress?: (fraction: number) => void
+): number {
+    const length = channels[0]?.length ?? 0;
+    const window = Math.max(1, Math.round(lookahead * sampleRate));
+    const limitLevel = fromDb(ceiling);
+
+    // Gain each sample needs on its own
+    const required = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+        let peak = 0;
+        for (const channel of channels) {
+            const value = Math.abs(channel[i]);
+            if (value > peak) peak = value;
+        }
+        required[i] = peak > limitLevel ? limitLevel / peak : 1;
+        if (onProgress && i % PROGRESS_BLOCK === 0) onProgress(i / length / 3);
+    }
+
+    // Forward-looking minimum over [i, i + window] (monotonic deque)
+    const minimum = new Float32Array(length);
+    const deque = new Int32Array(length + window + 1);
+    let head = 0;
+    let tail = 0;
+    let next = 0;
+    for (let i = 0; i < length; i++) {
+        while (next < length && next <= i + window) {
+            while (tail > head && required[deque[tail - 1]] >= required[next]) tail--;
+            deque[tail++] = next++;
+        }
+        while (deque[head] < i) head++;
+        minimum[i] = required[deque[head]];
+        if (onProgress && i % PROGRESS_BLOCK === 0) onProgress((1 + i / length) / 3);
+    }
+
+    // Average over the previous `window` samples, then a slow release
+    const releaseCoef = Math.exp(-1 / Math.max(1, release * sampleRate));
+    let sum = 0;
+    let gain = 1;
+    let deepest = 1;
+    for (let i = 0; i < length; i++) {
+        sum += minimum[i];
+        if (i > window) sum -= minimum[i - window - 1];
+        // Before the start, pretend the first window's minimum was already there
+        const smoothed = (sum + Math.max(0, window - i) * minimum[0]) / (window + 1);
+        const target = Math.min(smoothed, required[i]);
+        gain = target < gain ? target : target + releaseCoef * (gain - target);
+        if (gain < deepest) deepest = gain;
+        for (const channel of channels) {
+            channel[i] *= gain;
+        }
+        if (onProgress && i % PROGRESS_BLOCK === 0) onProgress((2 + i / length) / 3);
+    }
+    return toDb(deepest);
+}
+
+/**
+ * Run the master bus: gain to the loudness target, soft clip, limit to the true-peak ceiling,
+ * then re-check and correct (limiting costs loudness, sample-peak limiting misses inter-sample peaks)
+ * @param channels - The final mix, processed in place
+ * @param sampleRate - Sample rate
+ * @param settings - Master settings
+ * @param onProgress - Called with 0-1 as the passes work through the track
+ * @returns Loudness before and after, and what the chain did
+ */
+export function applyMaster(
+    channels: Float32Array[],
+    sampleRate: number,
+    settings: MasterSettings = DEFAULT_MASTER,
+    onProgress?: (fraction: number) => void
+): MasterReport {
+    const input = measureLoudness(channels, sampleRate);
+    onProgress?.(0.1);
+    if (!settings.enabled) {
+        return { input, output: input, gain: 0, maxReduction: 0 };
+    }
+
+    const original = channels.map(channel => channel.slice());
+    let gain = settings.targetLufs !== null && isFinite(input.integrated)
+        ? settings.targetLufs - input.integrated
+        : 0;
+    let ceiling = settings.ceiling;
+    let output = input;
+    let maxReduction = 0;
+
+    for (let pass = 0; pass < MAX_PASSES; pass++) {
+        // Most tracks need one pass: each one gets half of what's left of the bar
+        const passStart = 0.1 + 0.9 * (1 - Math.pow(0.5, pass));
+        const passLength = 0.45 * Math.pow(0.5, pass);
+        if (pass > 0) {
+            channels.forEach((channel, index) => channel.set(original[index]));
+        }
+        const linear = fromDb(gain);
+        for (const channel of channels) {
+            for (let i = 0; i < channel.length; i++) channel[i] *= linear;
+        }
+        softClip(channels, settings.clipDrive);
+        maxReduction = limit(channels, sampleRate, ceiling, settings.lookahead, settings.release, onProgress && (fraction =>
+            onProgress(passStart + 0.7 * passLength * fraction)));
+        onProgress?.(passStart + 0.7 * passLength);
+        output = measureLoudness(channels, sampleRate);
+        onProgress?.(passStart + passLength);
+
+        const overs = output.truePeak - settings.ceiling;
+        const shortfall = settings.targetLufs !== null && isFinite(output.integrated)
+            ? settings.targetLufs - output.integrated
+            : 0;
+        if (overs <= 0.05 && shortfall <= LOUDNESS_TOLERANCE) break;
+        if (overs > 0.05) ceiling -= overs;
+        if (shortfall > LOUDNESS_TOLERANCE) gain += shortfall;
+    }
+
+    return { input, output, gain, maxReduction };
+}
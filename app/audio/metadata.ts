@@ -0,0 +1,619 @@
+// Track metadata
+// Reads tags from the upload (ID3, Vorbis comments in FLAC/Ogg, MP4 atoms, WAV LIST/INFO)
+// and builds the tag blocks each export format carries (Vorbis comments, FLAC picture, WAV INFO/bext)
+
+import type { LoudnessReport } from './master';
+
+export interface TrackPicture {
+    mimeType: string;
+    data: Uint8Array;
+    description?: string;
+}
+
+export interface TrackMetadata {
+    title?: string;
+    artist?: string;
+    album?: string;
+    year?: string;
+    genre?: string;
+    trackNumber?: string;
+    comment?: string;
+    bpm?: number;
+    key?: string; // e.g. 'F#m'
+    picture?: TrackPicture;
+    loudness?: LoudnessReport; // measured on the export, written to the WAV bext chunk
+}
+
+// Name written as the encoder/vendor/originator
+export const ENCODER_NAME = 'hardstyleifier';
+export const EDIT_SUFFIX = ' (Hardstyle Edit)';
+
+const utf8 = new TextEncoder();
+
+/**
+ * Decode text, dropping trailing NULs (and anything after the first NUL for multi-value ID3 frames)
+ */
+function decodeText(bytes: Uint8Array, encoding: string = 'utf-8'): string {
+    let text: string;
+    try {
+        text = new TextDecoder(encoding).decode(bytes);
+    } catch {
+        text = new TextDecoder('utf-8').decode(bytes);
+    }
+    const nul = text.indexOf('\0');
+    return (nul === -1 ? text : text.slice(0, nul)).trim();
+}
+
+function fourCC(bytes: Uint8Array, offset: number): string {
+    return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+}
+
+/**
+ * Put a tag value on the metadata, keeping whatever was found first
+ */
+function assign(metadata: TrackMetadata, field: string, value: string): void {
+    if (!value) return;
+    switch (field) {
+        case 'title': case 'artist': case 'album': case 'year': case 'genre': case 'trackNumber': case 'comment': case 'key':
+            if (metadata[field] === undefined) metadata[field] = value;
+            break;
+        case 'bpm': {
+            const bpm = parseFloat(value);
+            if (metadata.bpm === undefined && bpm > 0) metadata.bpm = bpm;
+            break;
+        }
+    }
+}
+
+// ID3v2 frame ids (v2.3/2.4 and the 3-letter v2.2 ones) to fields
+const ID3_FRAMES: Record<string, string> = {
+    TIT2: 'title', TT2: 'title',
+    TPE1: 'artist', TP1: 'artist',
+    TALB: 'album', TAL: 'album',
+    TYER: 'year', TDRC: 'year', TYE: 'year',
+    TCON: 'genre', TCO: 'genre',
+    TRCK: 'trackNumber', TRK: 'trackNumber',
+    TBPM: 'bpm', TBP: 'bpm',
+    TKEY: 'key', TKE: 'key',
+};
+
+const ID3_ENCODINGS = ['latin1', 'utf-16', 'utf-16be', 'utf-8'];
+
+/**
+ * Text in one of ID3's four encodings (UTF-16 picks its byte order from the BOM)
+ */
+function id3Text(bytes: Uint8Array, encoding: number): string {
+    if (encoding === 1 && bytes.length >= 2) {
+        const bigEndian = bytes[0] === 0xfe && bytes[1] === 0xff;
+        return decodeText(bytes.subarray(2), bigEndian ? 'utf-16be' : 'utf-16le');
+    }
+    return decodeText(bytes, ID3_ENCODINGS[encoding] ?? 'latin1');
+}
+
+/**
+ * Index just past a NUL terminator (two zero bytes, aligned, for UTF-16)
+ */
+function skipTerminated(bytes: Uint8Array, start: number, encoding: number): number {
+    const wide = encoding === 1 || encoding === 2;
+    for (let i = start; i < bytes.length; i += wide ? 2 : 1) {
+        if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) return i + (wide ? 2 : 1);
+    }
+    return bytes.length;
+}
+
+/**
+ * ID3v2 tag at the start of an MP3 (or inside a WAV 'id3 ' chunk)
+ */
+function readId3v2(bytes: Uint8Array, metadata: TrackMetadata): void {
+    const version = bytes[3];
+    const flags = bytes[5];
+    const syncsafe = (offset: number) =>
+        ((bytes[offset] & 0x7f) << 21) | ((bytes[offset + 1] & 0x7f) << 14) | ((bytes[offset + 2] & 0x7f) << 7) | (bytes[offset + 3] & 0x7f);
+    const end = Math.min(bytes.length, 10 + syncsafe(6));
+
+    let tag = bytes.subarray(10, end);
+    // Whole-tag unsynchronisation (v2.2/2.3): every 0xff 0x00 was a lone 0xff
+    if (flags & 0x80 && version < 4) {
+        const restored: number[] = [];
+        for (let i = 0; i < tag.length; i++) {
+            restored.push(tag[i]);
+            if (tag[i] === 0xff && tag[i + 1] === 0) i++;
+        }
+        tag = new Uint8Array(restored);
+    }
+
+    let offset = 0;
+    if (flags & 0x40 && version >= 3) {
+        const view = new DataView(tag.buffer, tag.byteOffset, tag.byteLength);
+        offset = version === 4 ? syncsafe(10) : 4 + view.getUint32(0);
+    }
+
+    const idLength = version === 2 ? 3 : 4;
+    const headerLength = version === 2 ? 6 : 10;
+    while (offset + headerLength <= tag.length && tag[offset] !== 0) {
+        const id = String.fromCharCode(...tag.subarray(offset, offset + idLength));
+        let size: number;
+        if (version === 2) {
+            size = (tag[offset + 3] << 16) | (tag[offset + 4] << 8) | tag[offset + 5];
+        } else if (version === 4) {
+            size = ((tag[offset + 4] & 0x7f) << 21) | ((tag[offset + 5] & 0x7f) << 14)
+                | ((tag[offset + 6] & 0x7f) << 7) | (tag[offset + 7] & 0x7f);
+        } else {
+            size = ((tag[offset + 4] << 24) | (tag[offset + 5] << 16) | (tag[offset + 6] << 8) | tag[offset + 7]) >>> 0;
+        }
+        const body = tag.subarray(offset + headerLength, offset + headerLength + size);
+        offset += headerLength + size;
+        if (body.length === 0) continue;
+
+        const encoding = body[0];
+        if (ID3_FRAMES[id]) {
+            let value = id3Text(body.subarray(1), encoding);
+            // Genres can be numeric references like '(17)' or '(17)Rock'
+            if (ID3_FRAMES[id] === 'genre') value = value.replace(/^\(\d+\)/, '') || value;
+            assign(metadata, ID3_FRAMES[id], value);
+        } else if (id === 'COMM' || id === 'COM') {
+            // encoding, 3-byte language, short description, text
+            const textStart = skipTerminated(body, 4, encoding);
+            assign(metadata, 'comment', id3Text(body.subarray(textStart), encoding));
+        } else if ((id === 'APIC' || id === 'PIC') && !metadata.picture) {
+            let position = 1;
+            let mimeType: string;
+            if (id === 'PIC') {
+                // v2.2: 3-letter image format instead of a MIME type
+                mimeType = `image/${decodeText(body.subarray(1, 4), 'latin1').toLowerCase().replace('jpg', 'jpeg')}`;
+                position = 4;
+            } else {
+                const mimeEnd = skipTerminated(body, 1, 0);
+                mimeType = decodeText(body.subarray(1, mimeEnd), 'latin1') || 'image/jpeg';
+                position = mimeEnd;
+            }
+            position++; // picture type
+            const descriptionEnd = skipTerminated(body, position, encoding);
+            metadata.picture = {
+                mimeType,
+                description: id3Text(body.subarray(position, descriptionEnd), encoding),
+                data: body.slice(descriptionEnd),
+            };
+        }
+    }
+}
+
+/**
+ * ID3v1 tag in the last 128 bytes of an MP3 (only fills what ID3v2 didn't)
+ */
+function readId3v1(bytes: Uint8Array, metadata: TrackMetadata): void {
+    const tag = bytes.subarray(bytes.length - 128);
+    assign(metadata, 'title', decodeText(tag.subarray(3, 33), 'latin1'));
+    assign(metadata, 'artist', decodeText(tag.subarray(33, 63), 'latin1'));
+    assign(metadata, 'album', decodeText(tag.subarray(63, 93), 'latin1'));
+    assign(metadata, 'year', decodeText(tag.subarray(93, 97), 'latin1'));
+    // v1.1 puts the track number in the last byte of the comment
+    const hasTrack = tag[125] === 0 && tag[126] !== 0;
+    assign(metadata, 'comment', decodeText(tag.subarray(97, hasTrack ? 125 : 127), 'latin1'));
+    if (hasTrack) assign(metadata, 'trackNumber', String(tag[126]));
+}
+
+// Vorbis comment field names to fields
+const VORBIS_FIELDS: Record<string, string> = {
+    TITLE: 'title',
+    ARTIST: 'artist',
+    ALBUM: 'album',
+    DATE: 'year',
+    YEAR: 'year',
+    GENRE: 'genre',
+    TRACKNUMBER: 'trackNumber',
+    COMMENT: 'comment',
+    DESCRIPTION: 'comment',
+    BPM: 'bpm',
+    TBPM: 'bpm',
+    INITIALKEY: 'key',
+    KEY: 'key',
+};
+
+/**
+ * FLAC PICTURE block body (also base64'd into METADATA_BLOCK_PICTURE comments)
+ */
+function readFlacPicture(bytes: Uint8Array): TrackPicture | null {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 4; // picture type
+    const mimeLength = view.getUint32(offset);
+    const mimeType = decodeText(bytes.subarray(offset + 4, offset + 4 + mimeLength), 'latin1');
+    offset += 4 + mimeLength;
+    const descriptionLength = view.getUint32(offset);
+    const description = decodeText(bytes.subarray(offset + 4, offset + 4 + descriptionLength));
+    offset += 4 + descriptionLength + 16; // width, height, depth, colors
+    const dataLength = view.getUint32(offset);
+    if (offset + 4 + dataLength > bytes.length) return null;
+    return { mimeType, description, data: bytes.slice(offset + 4, offset + 4 + dataLength) };
+}
+
+/**
+ * Vorbis comment block (FLAC VORBIS_COMMENT, OpusTags, Vorbis comment header minus their magic)
+ */
+function readVorbisComments(bytes: Uint8Array, metadata: TrackMetadata): void {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 4 + view.getUint32(0, true);
+    const count = view.getUint32(offset, true);
+    offset += 4;
+    for (let i = 0; i < count && offset + 4 <= bytes.length; i++) {
+        const length = view.getUint32(offset, true);
+        const comment = new TextDecoder().decode(bytes.subarray(offset + 4, offset + 4 + length));
+        offset += 4 + length;
+
+        const separator = comment.indexOf('=');
+        if (separator === -1) continue;
+        const name = comment.slice(0, separator).toUpperCase();
+        const value = comment.slice(separator + 1).trim();
+        if (VORBIS_FIELDS[name]) {
+            assign(metadata, VORBIS_FIELDS[name], value);
+        } else if (name === 'METADATA_BLOCK_PICTURE' && !metadata.picture) {
+            try {
+                const binary = atob(value);
+                const picture = readFlacPicture(Uint8Array.from(binary, c => c.charCodeAt(0)));
+                if (picture) metadata.picture = picture;
+            } catch {
+                // Broken base64, ignore the picture
+            }
+        }
+    }
+}
+
+/**
+ * FLAC metadata blocks (VORBIS_COMMENT and PICTURE)
+ */
+function readFlac(bytes: Uint8Array, metadata: TrackMetadata): void {
+    let offset = 4;
+    let last = false;
+    while (!last && offset + 4 <= bytes.length) {
+        last = (bytes[offset] & 0x80) !== 0;
+        const type = bytes[offset] & 0x7f;
+        const length = (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3];
+        const body = bytes.subarray(offset + 4, offset + 4 + length);
+        if (type === 4) readVorbisComments(body, metadata);
+        if (type === 6 && !metadata.picture) metadata.picture = readFlacPicture(body) ?? undefined;
+        offset += 4 + length;
+    }
+}
+
+/**
+ * Ogg Vorbis/Opus: the comment header is the second packet of the first stream
+ */
+function readOgg(bytes: Uint8Array, metadata: TrackMetadata): void {
+    const packets: Uint8Array[] = [];
+    let current: number[] = [];
+    let offset = 0;
+    while (packets.length < 2 && offset + 27 <= bytes.length && fourCC(bytes, offset) === 'OggS') {
+        const segments = bytes[offset + 26];
+        let position = offset + 27 + segments;
+        for (let s = 0; s < segments && packets.length < 2; s++) {
+            const lacing = bytes[offset + 27 + s];
+            for (let i = 0; i < lacing; i++) current.push(bytes[position + i]);
+            position += lacing;
+            if (lacing < 255) {
+                packets.push(new Uint8Array(current));
+                current = [];
+            }
+        }
+        offset = offset + 27 + segments + bytes.subarray(offset + 27, offset + 27 + segments).reduce((a, b) => a + b, 0);
+    }
+
+    const comments = packets[1];
+    if (!comments) return;
+    if (decodeText(comments.subarray(0, 8), 'latin1') === 'OpusTags') {
+        readVorbisComments(comments.subarray(8), metadata);
+    } else if (comments[0] === 3 && decodeText(comments.subarray(1, 7), 'latin1') === 'vorbis') {
+        readVorbisComments(comments.subarray(7), metadata);
+    }
+}
+
+// MP4 ilst atoms to fields (0xa9 is ©)
+const MP4_ATOMS: Record<string, string> = {
+    '\xa9nam': 'title',
+    '\xa9ART': 'artist',
+    '\xa9alb': 'album',
+    '\xa9day': 'year',
+    '\xa9gen': 'genre',
+    '\xa9cmt': 'comment',
+};
+
+/**
+ * Child boxes of an MP4 box body
+ */
+function* mp4Boxes(bytes: Uint8Array, start: number, end: number): Generator<{ type: string; start: number; end: number }> {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = start;
+    while (offset + 8 <= end) {
+        let size = view.getUint32(offset);
+        let header = 8;
+        if (size === 1) {
+            size = view.getUint32(offset + 8) * 0x100000000 + view.getUint32(offset + 12);
+            header = 16;
+        } else if (size === 0) {
+            size = end - offset;
+        }
+        if (size < header) return;
+        yield { type: String.fromCharCode(...bytes.subarray(offset + 4, offset + 8)), start: offset + header, end: Math.min(end, offset + size) };
+        offset += size;
+    }
+}
+
+/**
+ * MP4/M4A: moov > udta > meta > ilst, each item holding a 'data' box
+ */
+function readMp4(bytes: Uint8Array, metadata: TrackMetadata): void {
+    const find = (type: string, start: number, end: number) => {
+        for (const box of mp4Boxes(bytes, start, end)) {
+            if (box.type === type) return box;
+        }
+        return null;
+    };
+    const moov = find('moov', 0, bytes.length);
+    const udta = moov && find('udta', moov.start, moov.end);
+    // meta is a full box: 4 bytes of version/flags before its children
+    const meta = udta && find('meta', udta.start, udta.end);
+    const ilst = meta && find('ilst', meta.start + 4, meta.end);
+    if (!ilst) return;
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    for (const item of mp4Boxes(bytes, ilst.start, ilst.end)) {
+        const data = find('data', item.start, item.end);
+        if (!data) continue;
+        const typeIndicator = view.getUint32(data.start) & 0xffffff;
+        const payload = bytes.subarray(data.start + 8, data.end);
+
+        if (MP4_ATOMS[item.type]) {
+            assign(metadata, MP4_ATOMS[item.type], decodeText(payload));
+        } else if (item.type === 'trkn' && payload.length >= 4) {
+            assign(metadata, 'trackNumber', String((payload[2] << 8) | payload[3]));
+        } else if (item.type === 'tmpo' && payload.length >= 2) {
+            assign(metadata, 'bpm', String((payload[0] << 8) | payload[1]));
+        } else if (item.type === 'covr' && !metadata.picture) {
+            metadata.picture = { mimeType: typeIndicator === 14 ? 'image/png' : 'image/jpeg', data: payload.slice() };
+        }
+    }
+}
+
+// WAV LIST/INFO ids to fields
+const INFO_IDS: Record<string, string> = {
+    INAM: 'title',
+    IART: 'artist',
+    IPRD: 'album',
+    ICRD: 'year',
+    IGNR: 'genre',
+    ITRK: 'trackNumber',
+    ICMT: 'comment',
+};
+
+/**
+ * WAV: LIST/INFO chunk, plus an ID3 tag if one was embedded as an 'id3 ' chunk
+ */
+function readWav(bytes: Uint8Array, metadata: TrackMetadata): void {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+        const id = fourCC(bytes, offset);
+        const size = view.getUint32(offset + 4, true);
+        const body = bytes.subarray(offset + 8, offset + 8 + size);
+        if (id === 'LIST' && fourCC(body, 0) === 'INFO') {
+            let position = 4;
+            while (position + 8 <= body.length) {
+                const infoId = fourCC(body, position);
+                const infoSize = view.getUint32(body.byteOffset - bytes.byteOffset + position + 4, true);
+                if (INFO_IDS[infoId]) {
+                    assign(metadata, INFO_IDS[infoId], decodeText(body.subarray(position + 8, position + 8 + infoSize)));
+                }
+                position += 8 + infoSize + (infoSize % 2);
+            }
+        } else if ((id === 'id3 ' || id === 'ID3 ') && fourCC(body, 0).startsWith('ID3')) {
+            readId3v2(body, metadata);
+        }
+        offset += 8 + size + (size % 2);
+    }
+}
+
+/**
+ * Read whatever tags a file carries
+ * @param bytes - The whole uploaded file
+ * @returns The tags found (empty for untagged files or unknown containers)
+ */
+export function readMetadata(bytes: Uint8Array): TrackMetadata {
+    const metadata: TrackMetadata = {};
+    try {
+        if (bytes.length >= 10 && decodeText(bytes.subarray(0, 3), 'latin1') === 'ID3') {
+            readId3v2(bytes, metadata);
+        } else if (fourCC(bytes, 0) === 'fLaC') {
+            readFlac(bytes, metadata);
+        } else if (fourCC(bytes, 0) === 'OggS') {
+            readOgg(bytes, metadata);
+        } else if (fourCC(bytes, 4) === 'ftyp') {
+            readMp4(bytes, metadata);
+        } else if (fourCC(bytes, 0) === 'RIFF' && fourCC(bytes, 8) === 'WAVE') {
+            readWav(bytes, metadata);
+        }
+        if (bytes.length >= 128 && decodeText(bytes.subarray(bytes.length - 128, bytes.length - 125), 'latin1') === 'TAG') {
+            readId3v1(bytes, metadata);
+        }
+    } catch (error) {
+        // Tags are a nice-to-have: a malformed tag shouldn't stop the track from loading
+        console.warn('[METADATA] Could not read tags:', error);
+    }
+    return metadata;
+}
+
+/**
+ * Key as it goes into tags: root plus 'm' for minor (e.g. 'F#m')
+ */
+export function formatKey(key: string, scale: string): string {
+    return `${key}${scale === 'minor' ? 'm' : ''}`;
+}
+
+/**
+ * The tags for the hardstyle edit of a track
+ * @param original - Tags read from the upload
+ * @param fallbackTitle - Title to use when the upload had none (usually the file name)
+ * @param details - Tempo and key of the export, and its measured loudness
+ */
+export function hardstyleMetadata(
+    original: TrackMetadata,
+    fallbackTitle: string,
+    details: { bpm?: number; key?: string; loudness?: LoudnessReport }
+): TrackMetadata {
+    return {
+        ...original,
+        title: `${original.title || fallbackTitle}${EDIT_SUFFIX}`,
+        bpm: details.bpm ?? original.bpm,
+        key: details.key ?? original.key,
+        loudness: details.loudness,
+    };
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+    const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        output.set(part, offset);
+        offset += part.length;
+    }
+    return output;
+}
+
+function uint32(value: number, littleEndian: boolean): Uint8Array {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setUint32(0, value, littleEndian);
+    return bytes;
+}
+
+/**
+ * FLAC PICTURE block body (front cover)
+ */
+export function flacPicture(picture: TrackPicture): Uint8Array {
+    const mimeType = utf8.encode(picture.mimeType);
+    const description = utf8.encode(picture.description ?? '');
+    return concat([
+        uint32(3, false), // front cover
+        uint32(mimeType.length, false), mimeType,
+        uint32(description.length, false), description,
+        new Uint8Array(16), // width, height, depth, colors: unknown
+        uint32(picture.data.length, false), picture.data,
+    ]);
+}
+
+/**
+ * Base64 without blowing the call stack on big pictures
+ */
+function toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+/**
+ * Vorbis comment block body, as used by FLAC's VORBIS_COMMENT and Opus' OpusTags
+ * @param metadata - Tags to write
+ * @param pictureAsComment - Embed the picture as METADATA_BLOCK_PICTURE (Ogg has no PICTURE block)
+ */
+export function vorbisComments(metadata: TrackMetadata, pictureAsComment: boolean): Uint8Array {
+    const comments: string[] = [];
+    const add = (name: string, value: string | number | undefined) => {
+        if (value !== undefined && value !== '') comments.push(`${name}=${value}`);
+    };
+    add('TITLE', metadata.title);
+    add('ARTIST', metadata.artist);
+    add('ALBUM', metadata.album);
+    add('DATE', metadata.year);
+    add('GENRE', metadata.genre);
+    add('TRACKNUMBER', metadata.trackNumber);
+    add('COMMENT', metadata.comment);
+    add('BPM', metadata.bpm !== undefined ? Math.round(metadata.bpm) : undefined);
+    add('INITIALKEY', metadata.key);
+    if (pictureAsComment && metadata.picture) {
+        add('METADATA_BLOCK_PICTURE', toBase64(flacPicture(metadata.picture)));
+    }
+
+    const vendor = utf8.encode(ENCODER_NAME);
+    const encoded = comments.map(comment => utf8.encode(comment));
+    return concat([
+        uint32(vendor.length, true), vendor,
+        uint32(encoded.length, true),
+        ...encoded.flatMap(comment => [uint32(comment.length, true), comment]),
+    ]);
+}
+
+/**
+ * A RIFF chunk, padded to an even length
+ */
+function riffChunk(id: string, body: Uint8Array): Uint8Array {
+    return concat([utf8.encode(id), uint32(body.length, true), body, new Uint8Array(body.length % 2)]);
+}
+
+/**
+ * WAV LIST/INFO chunk (null if there's nothing to write)
+ */
+export function wavInfoChunk(metadata: TrackMetadata): Uint8Array | null {
+    const fields: [string, string | undefined][] = [
+        ['INAM', metadata.title],
+        ['IART', metadata.artist],
+        ['IPRD', metadata.album],
+        ['ICRD', metadata.year],
+        ['IGNR', metadata.genre],
+        ['ITRK', metadata.trackNumber],
+        ['ICMT', metadata.comment],
+        ['ISFT', ENCODER_NAME],
+    ];
+    const chunks = fields
+        .filter(([, value]) => value)
+        .map(([id, value]) => riffChunk(id, utf8.encode(`${value}\0`)));
+    return chunks.length ? riffChunk('LIST', concat([utf8.encode('INFO'), ...chunks])) : null;
+}
+
+/**
+ * Fixed-width ASCII field, NUL padded
+ */
+function asciiField(text: string, length: number): Uint8Array {
+    const field = new Uint8Array(length);
+    for (let i = 0; i < Math.min(length, text.length); i++) {
+        const code = text.charCodeAt(i);
+        field[i] = code < 0x80 ? code : 0x3f; // '?'
+    }
+    return field;
+}
+
+// bext loudness fields are in hundredths of a dB, 0x7fff when unknown
+const BEXT_UNKNOWN = 0x7fff;
+
+/**
+ * Broadcast WAV 'bext' chunk (EBU Tech 3285 v2): description with tempo and key, and the loudness
+ */
+export function bextChunk(metadata: TrackMetadata, date: Date = new Date()): Uint8Array {
+    const details = [
+        metadata.bpm !== undefined ? `${metadata.bpm.toFixed(1)} BPM` : null,
+        metadata.key ? `key ${metadata.key}` : null,
+    ].filter(Boolean).join(', ');
+    const description = [metadata.artist, metadata.title].filter(Boolean).join(' - ') + (details ? ` (${details})` : '');
+    const pad = (value: number) => String(value).padStart(2, '0');
+
+    const loudness = new Uint8Array(10);
+    const view = new DataView(loudness.buffer);
+    const centi = (value: number | undefined) =>
+        value !== undefined && isFinite(value) ? Math.round(value * 100) : BEXT_UNKNOWN;
+    view.setInt16(0, centi(metadata.loudness?.integrated), true); // LoudnessValue
+    view.setInt16(2, BEXT_UNKNOWN, true); // LoudnessRange
+    view.setInt16(4, centi(metadata.loudness?.truePeak), true); // MaxTruePeakLevel
+    view.setInt16(6, BEXT_UNKNOWN, true); // MaxMomentaryLoudness
+    view.setInt16(8, BEXT_UNKNOWN, true); // MaxShortTermLoudness
+
+    return riffChunk('bext', concat([
+        asciiField(description, 256),
+        asciiField(ENCODER_NAME, 32), // Originator
+        asciiField('', 32), // OriginatorReference
+        asciiField(`${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`, 10),
+        asciiField(`${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`, 8),
+        new Uint8Array(8), // TimeReference
+        new Uint8Array([2, 0]), // Version
+        new Uint8Array(64), // UMID
+        loudness,
+        new Uint8Array(180), // Reserved
+    ]));
+}
@@ -0,0 +1,97 @@
+// Multichannel mixing helpers
+// Shared by the browser pipeline (app/audioProcessor.ts) and the server pipeline (buffer.ts)
+
+/**
+ * Anything that exposes its samples per channel (Web Audio AudioBuffer, audio-decode output)
+ */
+export interface ChannelSource {
+    numberOfChannels: number;
+    length: number;
+    getChannelData(channel: number): Float32Array;
+}
+
+/**
+ * Equal-power pan gains for each output channel
+ * @param pan - -1 (hard left) to 1 (hard right), 0 is center
+ * @param channelCount - Number of output channels
+ * @returns One gain per channel. Mono gets unity, channels beyond L/R get nothing
+ */
+export function panGains(pan: number, channelCount: number): number[] {
+    if (channelCount === 1) return [1];
+
+    const clamped = Math.max(-1, Math.min(1, pan));
+    const angle = ((clamped + 1) / 2) * (Math.PI / 2);
+    // Scale so center stays at unity on both sides (the kick shouldn't get quieter in stereo)
+    const gains = [Math.cos(angle) * Math.SQRT2, Math.sin(angle) * Math.SQRT2];
+
+    for (let channel = 2; channel < channelCount; channel++) {
+        gains.push(0);
+    }
+    return gains;
+}
+
+/**
+ * Scale every channel in place
+ * @param channels - Channels to process
+ * @param gain - Gain to apply
+ */
+export function applyGain(channels: Float32Array[], gain: number): void {
+    if (gain === 1) return;
+    for (const channel of channels) {
+        for (let i = 0; i < channel.length; i++) {
+            channel[i] *= gain;
+        }
+    }
+}
+
+/**
+ * Downmix all channels to mono (for analysis only - essentia wants a single vector)
+ * @param source - The decoded track
+ * @returns Mono samples, averaged across channels
+ */
+export function downmixToMono(source: ChannelSource): Float32Array {
+    if (source.numberOfChannels === 1) return source.getChannelData(0);
+
+    const mono = new Float32Array(source.length);
+    for (let channel = 0; channel < source.numberOfChannels; channel++) {
+        const input = source.getChannelData(channel);
+        for (let i = 0; i < source.length; i++) {
+            mono[i] += input[i];
+        }
+    }
+    for (let i = 0; i < source.length; i++) {
+        mono[i] /= source.numberOfChannels;
+    }
+    return mono;
+}
+
+/**
+ * Add a mono sample into every output channel at a position
+ * @param channels - Output channels to mix into
+ * @param sample - The (mono) sample to place
+ * @param position - Start position in samples
+ * @param gain - Sample gain
+ * @param pan - -1 (left) to 1 (right)
+ */
+export function mixSample(
+    channels: Float32Array[],
+    sample: Float32Array,
+    position: number,
+    gain: number,
+    pan: number = 0
+): void {
+    const gains = panGains(pan, channels.length);
+
+    channels.forEach((output, channel) => {
+        const channelGain = gain * gains[channel];
+        if (channelGain === 0) return;
+
+        for (let i = 0; i < sample.length; i++) {
+            const outputIndex = position + i;
+            if (outputIndex >= output.length) break;
+            if (outputIndex >= 0) {
+                output[outputIndex] += sample[i] * channelGain;
+            }
+        }
+    });
+}
@@ -0,0 +1,81 @@
+// Processing options shared by the browser and server pipelines
+
+import { DEFAULT_KICK } from './kicks';
+import { DEFAULT_LAYERS, LayerSettings } from './layers';
+import { DEFAULT_MASTER, MasterSettings } from './master';
+import { DEFAULT_PATTERN } from './pattern';
+import { PlacementMode } from './placement';
+import { ResampleQuality } from './resample';
+import { DEFAULT_SIDECHAIN, SidechainSettings } from './sidechain';
+import { DEFAULT_KICK_SYNTH, KickSynthSettings } from './synth';
+import { ConformMode } from './tempo';
+
+export interface HardstyleOptions {
+    kickGain: number; // master gain for every pattern hit (layer gains are relative to this)
+    originalGain: number; // gain on the original track before ducking
+    kickPan: number; // -1 (left) to 1 (right)
+    pattern: string; // key into PATTERNS
+    kickSample: string; // id from KICK_LIBRARY, CUSTOM_KICK to use customKick, or SYNTH_KICK to use kickSynth
+    customKick: Blob | null; // user-uploaded kick (WAV/MP3/FLAC)
+    kickSynth: KickSynthSettings; // parameters of the generated kick
+    tockSample: string; // file in /public (browser) or the project root (server)
+    resampleQuality: ResampleQuality; // used whenever a sample's rate differs from the track's
+    tuneToKey: boolean; // pitch-shift the kick tail to the track's root note
+    trackKey: string | null; // root note from analysis, detected during processing if null
+    sidechain: SidechainSettings;
+    placement: PlacementMode; // kick every beat, or only the drops/builds that lack a kick
+    crossfade: number; // seconds to fade kicks and ducking in/out at kicked sections
+    conform: ConformMode; // change the original's tempo to targetBpm before the kicks go on
+    targetBpm: number;
+    trackBpm: number | null; // tempo from analysis (BanificationScore.bpm), beat detection's if null
+    layers: LayerSettings; // reverse bass and screech on top of the kicks
+    master: MasterSettings; // limiter, soft clip and loudness target on the final mix
+}
+
+export const DEFAULT_OPTIONS: HardstyleOptions = {
+    kickGain: 0.5,
+    originalGain: 1.0,
+    kickPan: 0,
+    pattern: DEFAULT_PATTERN,
+    kickSample: DEFAULT_KICK,
+    customKick: null,
+    kickSynth: DEFAULT_KICK_SYNTH,
+    tockSample: 'tick.wav',
+    resampleQuality: 'sinc',
+    tuneToKey: true,
+    trackKey: null,
+    sidechain: DEFAULT_SIDECHAIN,
+    placement: 'everywhere',
+    crossfade: 2,
+    conform: 'off',
+    targetBpm: 150,
+    trackBpm: null,
+    layers: DEFAULT_LAYERS,
+    master: DEFAULT_MASTER,
+};
+
+/**
+ * What callers pass in: anything left out falls back to DEFAULT_OPTIONS
+ */
+export type HardstyleOptionsInput = Partial<Omit<HardstyleOptions, 'kickSynth' | 'sidechain' | 'layers' | 'master'>> & {
+    kickSynth?: Partial<KickSynthSettings>;
+    sidechain?: Partial<SidechainSettings>;
+    layers?: Partial<LayerSettings>;
+    master?: Partial<MasterSettings>;
+};
+
+/**
+ * Fill in defaults for anything the caller didn't set
+ * @param options - Partial options (kickSynth, sidechain, layers and master may be partial too)
+ * @returns Complete options
+ */
+export function resolveOptions(options: HardstyleOptionsInput = {}): HardstyleOptions {
+    return {
+        ...DEFAULT_OPTIONS,
+        ...options,
+        kickSynth: { ...DEFAULT_OPTIONS.kickSynth, ...options.kickSynth },
+        sidechain: { ...DEFAULT_OPTIONS.sidechain, ...options.sidechain },
+        layers: { ...DEFAULT_OPTIONS.layers, ...options.layers },
+        master: { ...DEFAULT_OPTIONS.master, ...options.master },
+    };
+}
@@ -0,0 +1,253 @@
+// Opus export
+// Lossy encoding through the browser's WebCodecs AudioEncoder, muxed into an Ogg container
+// here (WebCodecs only hands back raw Opus packets)
+
+import { vorbisComments } from './metadata';
+
+// Ogg Opus timestamps are always counted at 48 kHz, whatever the input rate
+const OPUS_RATE = 48000;
+// Encoder delay to skip when the encoder doesn't report its own OpusHead
+const DEFAULT_PRE_SKIP = 312;
+// Samples fed to the encoder per AudioData
+const INPUT_CHUNK = 48000;
+// Start a new Ogg page after this many bytes (pages max out at 255 segments anyway)
+const PAGE_TARGET_BYTES = 4096;
+// Most a single page can hold: 255 lacing values of 255 bytes
+const MAX_PAGE_BYTES = 255 * 255;
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Ogg's CRC-32 (polynomial 0x04c11db7, not reflected, no final xor)
+ */
+const OGG_CRC = (() => {
+    const table = new Uint32Array(256);
+    for (let byte = 0; byte < 256; byte++) {
+        let crc = byte << 24;
+        for (let bit = 0; bit < 8; bit++) {
+            crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+        }
+        table[byte] = crc >>> 0;
+    }
+    return table;
+})();
+
+function oggCrc(data: Uint8Array): number {
+    let crc = 0;
+    for (let i = 0; i < data.length; i++) {
+        crc = ((crc << 8) ^ OGG_CRC[((crc >>> 24) ^ data[i]) & 0xff]) >>> 0;
+    }
+    return crc;
+}
+
+/**
+ * Writes packets into Ogg pages for one logical stream
+ */
+function oggWriter(serial: number) {
+    const pages: Uint8Array[] = [];
+    let sequence = 0;
+
+    /**
+     * One page holding whole packets
+     * @param packets - Packets that all end on this page
+     * @param granule - Granule position after the last packet (-1 when no packet ends here)
+     * @param flags - 0x01 continues the previous page's packet, 0x02 first page of the stream, 0x04 last
+     * @param open - The last packet carries on to the next page (its length must be a multiple of 255)
+     */
+    const writePage = (packets: Uint8Array[], granule: number, flags: number, open: boolean = false) => {
+        const lacing: number[] = [];
+        packets.forEach((packet, index) => {
+            const unterminated = open && index === packets.length - 1;
+            for (let remaining = packet.length; ; remaining -= 255) {
+                if (unterminated && remaining === 0) break;
+                lacing.push(Math.min(255, remaining));
+                if (remaining < 255) break;
+            }
+        });
+        const bodyLength = packets.reduce((sum, packet) => sum + packet.length, 0);
+        const page = new Uint8Array(27 + lacing.length + bodyLength);
+        const view = new DataView(page.buffer);
+        page.set(textEncoder.encode('OggS'), 0);
+        view.setUint8(4, 0); // version
+        view.setUint8(5, flags);
+        view.setUint32(6, granule % 0x100000000, true);
+        view.setUint32(10, Math.floor(granule / 0x100000000), true);
+        view.setUint32(14, serial, true);
+        view.setUint32(18, sequence++, true);
+        view.setUint8(26, lacing.length);
+        page.set(lacing, 27);
+        let offset = 27 + lacing.length;
+        for (const packet of packets) {
+            page.set(packet, offset);
+            offset += packet.length;
+        }
+        view.setUint32(22, oggCrc(page), true);
+        pages.push(page);
+    };
+
+    /**
+     * One packet on pages of its own, spread over as many as it needs (tags with cover art get big)
+     */
+    const writeLongPacket = (packet: Uint8Array, granule: number) => {
+        for (let start = 0; ; start += MAX_PAGE_BYTES) {
+            const piece = packet.subarray(start, start + MAX_PAGE_BYTES);
+            const finished = packet.length - start < MAX_PAGE_BYTES;
+            writePage([piece], finished ? granule : -1, start > 0 ? 0x01 : 0, !finished);
+            if (finished) return;
+        }
+    };
+
+    return { pages, writePage, writeLongPacket };
+}
+
+/**
+ * Segments a packet takes up in a page's lacing table
+ */
+function segmentsOf(packet: Uint8Array): number {
+    return Math.floor(packet.length / 255) + 1;
+}
+
+/**
+ * OpusHead identification header (channel mapping family 0: mono or stereo)
+ */
+function opusHead(channelCount: number, preSkip: number, inputRate: number): Uint8Array {
+    const head = new Uint8Array(19);
+    const view = new DataView(head.buffer);
+    head.set(textEncoder.encode('OpusHead'), 0);
+    view.setUint8(8, 1); // version
+    view.setUint8(9, channelCount);
+    view.setUint16(10, preSkip, true);
+    view.setUint32(12, inputRate, true);
+    view.setInt16(16, 0, true); // output gain
+    view.setUint8(18, 0); // mapping family
+    return head;
+}
+
+/**
+ * OpusTags comment header
+ * @param comments - Vorbis comment block body (vendor string and comments)
+ */
+function opusTags(comments: Uint8Array): Uint8Array {
+    const tags = new Uint8Array(8 + comments.length);
+    tags.set(textEncoder.encode('OpusTags'), 0);
+    tags.set(comments, 8);
+    return tags;
+}
+
+/**
+ * Encode to Ogg Opus
+ * @param channels - Float samples, mono or stereo
+ * @param sampleRate - Sample rate (the browser's encoder converts to 48 kHz)
+ * @param bitrate - Bits per second
+ * @param onProgress - Called with 0-1 as audio is fed to the encoder
+ * @param comments - Vorbis comment block for OpusTags (defaults to the vendor string only)
+ * @returns The Ogg file as a list of pages (for a Blob)
+ */
+export async function encodeOpus(
+    channels: Float32Array[],
+    sampleRate: number,
+    bitrate: number,
+    onProgress?: (fraction: number) => void,
+    comments: Uint8Array = vorbisComments({}, false)
+): Promise<Uint8Array[]> {
+    if (typeof AudioEncoder === 'undefined') {
+        throw new Error('This browser has no WebCodecs audio encoder, export as WAV or FLAC instead');
+    }
+    if (channels.length > 2) {
+        throw new Error('Opus export supports mono and stereo only');
+    }
+
+    const config: AudioEncoderConfig = {
+        codec: 'opus',
+        sampleRate,
+        numberOfChannels: channels.length,
+        bitrate,
+    };
+    const { supported } = await AudioEncoder.isConfigSupported(config);
+    if (!supported) {
+        throw new Error(`Opus encoding at ${sampleRate} Hz isn't supported by this browser`);
+    }
+
+    const packets: { data: Uint8Array; samples: number }[] = [];
+    let description: Uint8Array | null = null;
+    let failure: Error | null = null;
+    const encoder = new AudioEncoder({
+        output: (chunk, metadata) => {
+            const data = new Uint8Array(chunk.byteLength);
+            chunk.copyTo(data);
+            packets.push({ data, samples: Math.round(((chunk.duration ?? 0) * OPUS_RATE) / 1e6) });
+            const extra = metadata?.decoderConfig?.description;
+            if (extra && !description) {
+                description = ArrayBuffer.isView(extra)
+                    ? new Uint8Array(extra.buffer, extra.byteOffset, extra.byteLength).slice()
+                    : new Uint8Array(extra).slice();
+            }
+        },
+        error: error => {
+            failure = error;
+        },
+    });
+    encoder.configure(config);
+
+    const length = channels[0]?.length ?? 0;
+    for (let start = 0; start < length; start += INPUT_CHUNK) {
+        const frames = Math.min(INPUT_CHUNK, length - start);
+        const planar = new Float32Array(frames * channels.length);
+        channels.forEach((channel, index) => planar.set(channel.subarray(start, start + frames), index * frames));
+        const data = new AudioData({
+            format: 'f32-planar',
+            sampleRate,
+            numberOfFrames: frames,
+            numberOfChannels: channels.length,
+            timestamp: Math.round((start / sampleRate) * 1e6),
+            data: planar,
+        });
+        encoder.encode(data);
+        data.close();
+        onProgress?.(start / length);
+        // Let the encoder drain so the queue doesn't hold the whole track
+        if (encoder.encodeQueueSize > 4) {
+            await new Promise(resolve => setTimeout(resolve, 0));
+        }
+    }
+    await encoder.flush();
+    encoder.close();
+    if (failure) throw failure;
+
+    // The encoder's own OpusHead carries its real pre-skip
+    const reported = description as Uint8Array | null;
+    const head = reported && reported.length >= 19 && new TextDecoder().decode(reported.subarray(0, 8)) === 'OpusHead'
+        ? reported
+        : opusHead(channels.length, DEFAULT_PRE_SKIP, sampleRate);
+    const preSkip = new DataView(head.buffer, head.byteOffset, head.byteLength).getUint16(10, true);
+
+    const ogg = oggWriter((Math.random() * 0x100000000) >>> 0);
+    ogg.writePage([head], 0, 0x02);
+    ogg.writeLongPacket(opusTags(comments), 0);
+
+    // Granule = samples decoded so far (the packet counts already include the pre-skip),
+    // capped so the last page trims the padding
+    const endGranule = preSkip + Math.round((length / sampleRate) * OPUS_RATE);
+    let granule = 0;
+    let page: Uint8Array[] = [];
+    let pageBytes = 0;
+    let pageSegments = 0;
+    packets.forEach((packet, index) => {
+        const isLast = index === packets.length - 1;
+        page.push(packet.data);
+        pageBytes += packet.data.length;
+        pageSegments += segmentsOf(packet.data);
+        granule += packet.samples;
+
+        const next = packets[index + 1];
+        if (isLast || pageBytes >= PAGE_TARGET_BYTES || pageSegments + segmentsOf(next.data) > 255) {
+            ogg.writePage(page, Math.min(granule, endGranule), isLast ? 0x04 : 0);
+            page = [];
+            pageBytes = 0;
+            pageSegments = 0;
+        }
+    });
+    // Nothing encoded: the stream still needs its end
+    if (packets.length === 0) ogg.writePage([], 0, 0x04);
+    return ogg.pages;
+}
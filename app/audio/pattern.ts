@@ -0,0 +1,159 @@
+// Kick pattern engine
+// Turns a per-bar step grid into sample placements on a detected beat grid
+
+import { mixSample } from './mixer';
+
+/**
+ * One sound in a pattern, e.g. the kick or the offbeat tock
+ */
+export interface PatternLayer {
+    name: string;
+    sample: string; // key into the sample map passed to renderPattern
+    gain: number; // relative to the overall kick gain
+    steps: number[]; // velocity (0-1) per step, 0 = silent. Length must match stepsPerBar
+    ducks?: boolean; // this layer keys the sidechain ducking of the original track
+    barEvery?: number; // only play on every Nth bar...
+    barOffset?: number; // ...starting at this bar (0-based)
+}
+
+export interface KickPattern {
+    name: string;
+    stepsPerBar: number;
+    beatsPerBar: number;
+    layers: PatternLayer[];
+}
+
+/**
+ * A single hit produced by the pattern, ready to be mixed
+ */
+export interface PatternEvent {
+    time: number; // seconds
+    layer: PatternLayer;
+    velocity: number;
+}
+
+const FOUR_ON_THE_FLOOR = [1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0];
+const OFFBEATS = [0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 1, 0];
+
+export const PATTERNS: Record<string, KickPattern> = {
+    'four-on-the-floor': {
+        name: 'Four on the floor',
+        stepsPerBar: 16,
+        beatsPerBar: 4,
+        layers: [
+            { name: 'kick', sample: 'kick', gain: 1, steps: FOUR_ON_THE_FLOOR, ducks: true },
+        ],
+    },
+    'kick-tock': {
+        name: 'Kick + offbeat tock',
+        stepsPerBar: 16,
+        beatsPerBar: 4,
+        layers: [
+            { name: 'kick', sample: 'kick', gain: 1, steps: FOUR_ON_THE_FLOOR, ducks: true },
+            { name: 'tock', sample: 'tock', gain: 0.8, steps: OFFBEATS },
+        ],
+    },
+    'kick-tock-roll': {
+        name: 'Kick + tock + roll every 8 bars',
+        stepsPerBar: 16,
+        beatsPerBar: 4,
+        layers: [
+            { name: 'kick', sample: 'kick', gain: 1, steps: FOUR_ON_THE_FLOOR, ducks: true },
+            { name: 'tock', sample: 'tock', gain: 0.8, steps: OFFBEATS },
+            // Double kick on beat 4 of every 8th bar
+            {
+                name: 'roll',
+                sample: 'kick',
+                gain: 1,
+                steps: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0.8, 0],
+                ducks: true,
+                barEvery: 8,
+                barOffset: 7,
+            },
+        ],
+    },
+};
+
+export const DEFAULT_PATTERN = 'kick-tock';
+
+/**
+ * Find the time of a fractional beat index, interpolating between detected beats
+ * Falls back to the previous beat interval (or 0.5s) when the next beat is missing
+ */
+function beatIndexToTime(beats: ArrayLike<number>, beatIndex: number): number | null {
+    const index = Math.floor(beatIndex);
+    if (index < 0 || index >= beats.length) return null;
+
+    const fraction = beatIndex - index;
+    if (fraction === 0) return beats[index];
+
+    let interval = 0.5;
+    if (index + 1 < beats.length) {
+        interval = beats[index + 1] - beats[index];
+    } else if (index > 0) {
+        interval = beats[index] - beats[index - 1];
+    }
+    return beats[index] + fraction * interval;
+}
+
+/**
+ * Lay a pattern over a beat grid
+ * Beats before the downbeat get the tail end of a pickup bar
+ * @param pattern - The step pattern to play
+ * @param beats - Beat positions in seconds
+ * @param downbeat - Index of the beat that starts the first full bar
+ * @returns Every hit, sorted by time
+ */
+export function schedulePattern(pattern: KickPattern, beats: ArrayLike<number>, downbeat: number = 0): PatternEvent[] {
+    const events: PatternEvent[] = [];
+    const firstBar = -Math.ceil(downbeat / pattern.beatsPerBar);
+    const barCount = Math.ceil((beats.length - downbeat) / pattern.beatsPerBar);
+    const beatsPerStep = pattern.beatsPerBar / pattern.stepsPerBar;
+
+    for (let bar = firstBar; bar < barCount; bar++) {
+        for (const layer of pattern.layers) {
+            const every = layer.barEvery ?? 1;
+            if ((((bar - (layer.barOffset ?? 0)) % every) + every) % every !== 0) continue;
+
+            layer.steps.forEach((velocity, step) => {
+                if (velocity <= 0) return;
+                const time = beatIndexToTime(beats, downbeat + bar * pattern.beatsPerBar + step * beatsPerStep);
+                if (time === null) return;
+                events.push({ time, layer, velocity });
+            });
+        }
+    }
+
+    return events.sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Mix scheduled pattern hits into output channels
+ * @param channels - Output channels to mix into
+ * @param events - Hits from schedulePattern
+ * @param samples - Sample data keyed by PatternLayer.sample
+ * @param sampleRate - Output sample rate
+ * @param gain - Overall gain, multiplied with each layer's gain and hit velocity
+ * @param pan - -1 (left) to 1 (right)
+ * @param onProgress - Called with 0-1 as hits are mixed
+ */
+export function renderPattern(
+    channels: Float32Array[],
+    events: PatternEvent[],
+    samples: Record<string, Float32Array>,
+    sampleRate: number,
+    gain: number = 1,
+    pan: number = 0,
+    onProgress?: (fraction: number) => void
+): void {
+    events.forEach((event, index) => {
+        if (onProgress && index % 64 === 0) onProgress(index / events.length);
+        const sample = samples[event.layer.sample];
+        if (!sample) {
+            console.warn(`[PATTERN] No sample loaded for "${event.layer.sample}", skipping`);
+            return;
+        }
+        const position = Math.floor(event.time * sampleRate);
+        mixSample(channels, sample, position, gain * event.layer.gain * event.velocity, pan);
+    });
+}
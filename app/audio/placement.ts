@@ -0,0 +1,169 @@
+// Section-aware kick placement
+// Finds the parts of a track that should bang but don't have a kick yet, so the pattern
+// only plays there. Quiet intros and breakdowns, and sections with their own kick, are left alone
+
+import type { RhythmAnalysis } from './analysis';
+import { PatternEvent } from './pattern';
+import { Section, segmentSections, windowBoundaries } from './timeline';
+
+export type PlacementMode = 'everywhere' | 'sections';
+
+/**
+ * A stretch of the track that gets kicks
+ */
+export interface KickRegion {
+    start: number; // seconds
+    end: number; // seconds
+}
+
+// Low band that the kick lives in
+const LOW_CUTOFF = 120;
+// Envelope resolution for the kick detector
+const BLOCK_SECONDS = 0.005;
+// Where to look for a kick around each beat, and the quiet stretch just before it
+const HIT_WINDOW: [number, number] = [-0.02, 0.06];
+const PRE_WINDOW: [number, number] = [-0.15, -0.05];
+// A beat has a kick when the low band jumps by this much (power ratio, ~6 dB)...
+const ONSET_RATIO = 4;
+// ...and is at least this loud relative to the loudest low-end hit in the track
+const MIN_HIT_LEVEL = 0.2;
+// A window already has a kick when at least this share of its beats do
+const KICK_PRESENT = 0.5;
+
+/**
+ * Low-band power envelope, one value per BLOCK_SECONDS
+ */
+export function lowBandEnvelope(audioData: Float32Array, sampleRate: number): { envelope: Float32Array; blockRate: number } {
+    const blockSize = Math.max(1, Math.round(BLOCK_SECONDS * sampleRate));
+    const envelope = new Float32Array(Math.ceil(audioData.length / blockSize));
+    // Two one-pole lowpasses in series (12 dB/oct) is plenty to isolate kick energy
+    const coef = Math.exp((-2 * Math.PI * LOW_CUTOFF) / sampleRate);
+    let stage1 = 0;
+    let stage2 = 0;
+
+    for (let i = 0; i < audioData.length; i++) {
+        stage1 = audioData[i] + coef * (stage1 - audioData[i]);
+        stage2 = stage1 + coef * (stage2 - stage1);
+        envelope[Math.floor(i / blockSize)] += stage2 * stage2;
+    }
+    for (let b = 0; b < envelope.length; b++) {
+        envelope[b] /= blockSize;
+    }
+    return { envelope, blockRate: sampleRate / blockSize };
+}
+
+/**
+ * Detect which beats already have a kick on them, from low-end onsets
+ * @param audioData - Mono audio
+ * @param sampleRate - Sample rate of the audio
+ * @param beats - Beat positions in seconds
+ * @returns true for every beat with a kick
+ */
+export function detectKicks(audioData: Float32Array, sampleRate: number, beats: ArrayLike<number>): boolean[] {
+    const { envelope, blockRate } = lowBandEnvelope(audioData, sampleRate);
+    const measure = (time: number, [from, to]: [number, number], reduce: 'max' | 'mean') => {
+        const first = Math.max(0, Math.floor((time + from) * blockRate));
+        const last = Math.min(envelope.length, Math.ceil((time + to) * blockRate));
+        let value = 0;
+        for (let b = first; b < last; b++) {
+            value = reduce === 'max' ? Math.max(value, envelope[b]) : value + envelope[b];
+        }
+        return reduce === 'max' ? value : value / Math.max(1, last - first);
+    };
+
+    const hits = Array.from(beats, time => measure(time, HIT_WINDOW, 'max'));
+    const before = Array.from(beats, time => measure(time, PRE_WINDOW, 'mean'));
+    const loudest = Math.max(0, ...hits);
+    if (loudest === 0) return hits.map(() => false);
+
+    return hits.map((hit, index) =>
+        hit >= loudest * MIN_HIT_LEVEL && hit >= before[index] * ONSET_RATIO
+    );
+}
+
+/**
+ * Decide where kicks should go: drops and builds that don't already have a kick
+ * @param audioData - Mono audio
+ * @param sampleRate - Sample rate of the audio
+ * @param rhythm - Beat grid
+ * @returns The regions to kick (merged, in order) and the sections they were picked from
+ */
+export function planKickRegions(
+    audioData: Float32Array,
+    sampleRate: number,
+    rhythm: RhythmAnalysis
+): { regions: KickRegion[]; sections: Section[] } {
+    const duration = audioData.length / sampleRate;
+    const boundaries = windowBoundaries(rhythm, duration);
+    const kicks = detectKicks(audioData, sampleRate, rhythm.beats);
+
+    const windows = boundaries.slice(0, -1).map((start, w) => {
+        const end = boundaries[w + 1];
+        const first = Math.floor(start * sampleRate);
+        const last = Math.min(audioData.length, Math.floor(end * sampleRate));
+        let sumSquares = 0;
+        for (let i = first; i < last; i++) {
+            sumSquares += audioData[i] * audioData[i];
+        }
+
+        let beats = 0;
+        let kicked = 0;
+        rhythm.beats.forEach((time, index) => {
+            if (time < start || time >= end) return;
+            beats++;
+            if (kicks[index]) kicked++;
+        });
+
+        return { start, end, rms: Math.sqrt(sumSquares / Math.max(1, last - first)), hasKick: beats > 0 && kicked / beats >= KICK_PRESENT };
+    });
+
+    const sections = segmentSections(windows);
+    const regions: KickRegion[] = [];
+    windows.forEach(window => {
+        const section = sections.find(s => window.start >= s.start && window.start < s.end);
+        if (!section || (section.type !== 'drop' && section.type !== 'build') || window.hasKick) return;
+
+        const previous = regions[regions.length - 1];
+        if (previous && previous.end >= window.start) {
+            previous.end = window.end;
+        } else {
+            regions.push({ start: window.start, end: window.end });
+        }
+    });
+
+    return { regions, sections };
+}
+
+/**
+ * How much of the pattern plays at a point in time: 1 inside a region, ramping in from 0
+ * over the first `crossfade` seconds and out over the last, 0 outside
+ * Regions touching the start or end of the track don't fade on that side
+ */
+export function regionGain(regions: KickRegion[], time: number, crossfade: number, duration: number): number {
+    const region = regions.find(r => time >= r.start && time < r.end);
+    if (!region) return 0;
+    if (crossfade <= 0) return 1;
+
+    const fadeIn = region.start <= 0 ? 1 : (time - region.start) / crossfade;
+    const fadeOut = region.end >= duration ? 1 : (region.end - time) / crossfade;
+    return Math.max(0, Math.min(1, fadeIn, fadeOut));
+}
+
+/**
+ * Restrict pattern hits to the kick regions, fading velocity at the edges
+ * @param events - Hits from schedulePattern
+ * @param regions - From planKickRegions
+ * @param crossfade - Fade length in seconds
+ * @param duration - Track length in seconds
+ * @returns The hits that still play, with scaled velocity
+ */
+export function placeInRegions(
+    events: PatternEvent[],
+    regions: KickRegion[],
+    crossfade: number,
+    duration: number
+): PatternEvent[] {
+    return events
+        .map(event => ({ ...event, velocity: event.velocity * regionGain(regions, event.time, crossfade, duration) }))
+        .filter(event => event.velocity > 0);
+}
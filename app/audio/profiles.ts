@@ -0,0 +1,117 @@
+// Scoring profiles
+// What counts as a banger depends on the genre: target tempo, what matters most, and how high the bar is
+
+import type { ScoreComponentId } from './analysis';
+
+export interface ScoringProfile {
+    id: string;
+    name: string;
+    bpmRange: [number, number]; // full BPM score inside this range
+    bpmFalloff: number; // BPM outside the range until the BPM score hits 0
+    weights: Record<ScoreComponentId, number>; // relative, normalized when scoring
+    normalizers: {
+        energy: number; // score = log10(energy + 1) * energy
+        loudness: number; // score = rms * loudness
+        percussion: number; // score = zcr * percussion
+        spectral: number; // HFC that scores 100
+        brightness: number; // centroid (Hz) that scores 100
+    };
+    threshold: number; // score needed for 'ALREADY A BANGER'
+    custom?: boolean;
+}
+
+const DEFAULT_NORMALIZERS: ScoringProfile['normalizers'] = {
+    energy: 20,
+    loudness: 200,
+    percussion: 500,
+    spectral: 5,
+    brightness: 5000,
+};
+
+export const PROFILES: Record<string, ScoringProfile> = {
+    hardstyle: {
+        id: 'hardstyle',
+        name: 'Hardstyle',
+        bpmRange: [150, 180],
+        bpmFalloff: 70,
+        weights: { bpm: 0.25, energy: 0.20, loudness: 0.20, spectral: 0.15, brightness: 0.10, percussion: 0.10 },
+        normalizers: DEFAULT_NORMALIZERS,
+        threshold: 65,
+    },
+    hardcore: {
+        id: 'hardcore',
+        name: 'Hardcore',
+        bpmRange: [170, 220],
+        bpmFalloff: 80,
+        weights: { bpm: 0.25, energy: 0.20, loudness: 0.25, spectral: 0.15, brightness: 0.05, percussion: 0.10 },
+        normalizers: { ...DEFAULT_NORMALIZERS, loudness: 180 },
+        threshold: 70,
+    },
+    techno: {
+        id: 'techno',
+        name: 'Techno',
+        bpmRange: [125, 140],
+        bpmFalloff: 40,
+        weights: { bpm: 0.20, energy: 0.20, loudness: 0.15, spectral: 0.10, brightness: 0.05, percussion: 0.30 },
+        normalizers: { ...DEFAULT_NORMALIZERS, brightness: 4000 },
+        threshold: 60,
+    },
+    dnb: {
+        id: 'dnb',
+        name: 'Drum & Bass',
+        bpmRange: [165, 180],
+        bpmFalloff: 50,
+        weights: { bpm: 0.25, energy: 0.15, loudness: 0.15, spectral: 0.20, brightness: 0.05, percussion: 0.20 },
+        normalizers: { ...DEFAULT_NORMALIZERS, spectral: 6 },
+        threshold: 60,
+    },
+};
+
+export const DEFAULT_PROFILE = 'hardstyle';
+
+const STORAGE_KEY = 'hardstyleifier.profiles';
+
+/**
+ * Custom profiles saved in this browser
+ */
+export function loadCustomProfiles(): ScoringProfile[] {
+    if (typeof window === 'undefined') return [];
+    try {
+        const stored = window.localStorage.getItem(STORAGE_KEY);
+        return stored ? (JSON.parse(stored) as ScoringProfile[]) : [];
+    } catch (e) {
+        console.warn('[PROFILES] Could not read custom profiles:', e);
+        return [];
+    }
+}
+
+/**
+ * Save (or overwrite) a custom profile
+ * @param profile - Profile to save, matched by id
+ * @returns All custom profiles after saving
+ */
+export function saveCustomProfile(profile: ScoringProfile): ScoringProfile[] {
+    const profiles = loadCustomProfiles().filter(existing => existing.id !== profile.id);
+    profiles.push({ ...profile, custom: true });
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+    return profiles;
+}
+
+/**
+ * Remove a custom profile
+ * @returns All custom profiles after deleting
+ */
+export function deleteCustomProfile(id: string): ScoringProfile[] {
+    const profiles = loadCustomProfiles().filter(profile => profile.id !== id);
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+    return profiles;
+}
+
+/**
+ * BPM score for a profile: 100 inside the target range, falling off linearly outside it
+ */
+export function scoreBpm(bpm: number, profile: ScoringProfile): number {
+    const [min, max] = profile.bpmRange;
+    const distance = bpm < min ? min - bpm : bpm > max ? bpm - max : 0;
+    return Math.max(0, 100 * (1 - distance / profile.bpmFalloff));
+}
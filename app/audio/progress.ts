@@ -0,0 +1,44 @@
+// Progress reporting for long-running analysis and render jobs
+
+export type ProgressStage =
+    | 'decode' // decoding the upload (main thread)
+    | 'rhythm' // beat detection
+    | 'key' // key detection
+    | 'energy' // energy, RMS and zero crossing rate
+    | 'spectral' // HFC and centroid
+    | 'score' // combining the components
+    | 'tempo' // time-stretching the original to the target BPM
+    | 'samples' // loading, resampling and tuning the kick
+    | 'sidechain' // ducking the original
+    | 'mix' // mixing the pattern in
+    | 'master' // loudness, soft clip and limiter
+    | 'encode' // writing the export file
+    | 'done';
+
+/**
+ * One progress update, emitted by both analyzeBanification and processAudioInBrowser
+ */
+export interface HardstyleProgress {
+    stage: ProgressStage;
+    message: string; // hype string for the UI
+    fraction: number; // 0-1, how much of the whole job is done
+    framesProcessed?: number; // for frame-by-frame stages: where we are...
+    framesTotal?: number; // ...out of how many
+}
+
+/**
+ * Called by the analysis/render cores as they work through the track
+ */
+export type ProgressReporter = (progress: HardstyleProgress) => void;
+
+/**
+ * Estimate time left from how long the job has been running
+ * @param startedAt - Date.now() when the job started
+ * @param fraction - 0-1 done
+ * @returns Seconds left, or null while there's too little progress to tell
+ */
+export function estimateRemaining(startedAt: number, fraction: number): number | null {
+    if (fraction < 0.05 || fraction >= 1) return null;
+    const elapsed = (Date.now() - startedAt) / 1000;
+    return (elapsed / fraction) * (1 - fraction);
+}
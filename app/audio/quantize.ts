@@ -0,0 +1,23 @@
+// Quantization
+// Float samples to integer PCM for the lossless export formats (WAV and FLAC)
+
+/**
+ * Scale to integers at a bit depth, clamped, optionally with TPDF dither
+ * (two uniform random values of one LSB each, which decorrelates the rounding error from the signal)
+ * @param channels - Float samples, nominally -1 to 1
+ * @param bitDepth - 16 or 24
+ * @param dither - Add triangular dither before rounding
+ * @returns One Int32Array per channel
+ */
+export function quantize(channels: Float32Array[], bitDepth: 16 | 24, dither: boolean): Int32Array[] {
+    const max = Math.pow(2, bitDepth - 1);
+    return channels.map(channel => {
+        const output = new Int32Array(channel.length);
+        for (let i = 0; i < channel.length; i++) {
+            const noise = dither ? Math.random() - Math.random() : 0;
+            const value = Math.round(channel[i] * max + noise);
+            output[i] = Math.max(-max, Math.min(max - 1, value));
+        }
+        return output;
+    });
+}
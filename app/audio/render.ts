@@ -0,0 +1,243 @@
+// Hardstyle render core
+// Everything after decoding: kick prep, pattern, sidechain and mixing. Runs in the
+// render worker (browser) and in buffer.ts (server)
+
+import { detectKey, detectRhythm, RhythmAnalysis } from './analysis';
+import { quantizeRhythm } from './beatgrid';
+import { prepareKick, resolveKick, SYNTH_KICK } from './kicks';
+import { layerPattern, synthesizeReverseBass, synthesizeScreech } from './layers';
+import { applyMaster, MasterReport } from './master';
+import { applyGain, ChannelSource, downmixToMono } from './mixer';
+import { HardstyleOptions } from './options';
+import { DEFAULT_PATTERN, PATTERNS, PatternEvent, renderPattern, schedulePattern } from './pattern';
+import { KickRegion, placeInRegions, planKickRegions, regionGain } from './placement';
+import { ProgressReporter, ProgressStage } from './progress';
+import { toTrackRate } from './resample';
+import { applyEnvelope, applyLowBandEnvelope, buildSidechainEnvelope } from './sidechain';
+import { synthesizeKick, tuneKickSynth } from './synth';
+import { conformRatio, nightcore, nightcoreSemitones, scaleRhythm, timeStretch } from './tempo';
+import { transposeNote, tuneKick } from './tuning';
+
+/**
+ * A decoded one-shot sample (Web Audio AudioBuffer, audio-decode output, or a worker-side wrapper)
+ */
+export interface DecodedSample {
+    sampleRate: number;
+    getChannelData(channel: number): Float32Array;
+}
+
+/**
+ * Every sample the patterns play, at the track's rate: the kick (library, uploaded or synthesized,
+ * tuned to the root), the tock, and the reverse bass and screech when those layers are on
+ * @param kickSample - Decoded kick, null when settings.kickSample is SYNTH_KICK
+ * @param tockSample - Decoded offbeat sample
+ * @param settings - Resolved processing options
+ * @param sampleRate - Track sample rate
+ * @param beatSeconds - Beat length of the (conformed) track, the layers are sized to it
+ * @param getRoot - Root note of the track, only called when something needs tuning
+ * @param report - Progress callback
+ * @returns Sample data keyed by PatternLayer.sample
+ */
+export function preparePatternSamples(
+    kickSample: DecodedSample | null,
+    tockSample: DecodedSample,
+    settings: HardstyleOptions,
+    sampleRate: number,
+    beatSeconds: number,
+    getRoot: () => string,
+    report: ProgressReporter = () => {}
+): Record<string, Float32Array> {
+    const root = settings.tuneToKey ? getRoot() : null;
+    let kick: Float32Array;
+    if (settings.kickSample === SYNTH_KICK || !kickSample) {
+        // The generated kick is rendered in tune, no pitch shifting needed
+        report({ stage: 'samples', message: `SYNTHESIZING THE KICK${root ? ` IN ${root}` : ''}... 🎛️`, fraction: 0.4 });
+        kick = synthesizeKick(root ? tuneKickSynth(settings.kickSynth, root) : settings.kickSynth, sampleRate);
+    } else {
+        kick = prepareKick(
+            kickSample,
+            resolveKick(settings.kickSample, settings.customKick !== null),
+            sampleRate,
+            settings.resampleQuality
+        );
+        if (root) {
+            report({ stage: 'samples', message: `TUNING THE KICK TO ${root}... 🎹`, fraction: 0.4 });
+            kick = tuneKick(kick, sampleRate, root, settings.resampleQuality);
+        }
+    }
+    const samples: Record<string, Float32Array> = {
+        kick,
+        tock: toTrackRate(tockSample, sampleRate, settings.resampleQuality),
+    };
+
+    // Reverse bass and screech, always in the track's key
+    if (settings.layers.reverseBass || settings.layers.screech) {
+        report({ stage: 'samples', message: `SUMMONING THE SCREECH IN ${getRoot()}... 😱`, fraction: 0.42 });
+        if (settings.layers.reverseBass) samples.reverseBass = synthesizeReverseBass(getRoot(), beatSeconds, sampleRate);
+        if (settings.layers.screech) samples.screech = synthesizeScreech(getRoot(), beatSeconds, sampleRate);
+    }
+    return samples;
+}
+
+/**
+ * Lay the pattern and the extra layers over a beat grid
+ * @param beatGrid - Beat grid of the (conformed) track
+ * @param settings - Resolved processing options
+ * @param regions - Kick regions in section-aware mode, null to kick everywhere
+ * @param duration - Track length in seconds
+ * @returns Kick/tock hits (mixed on top of the ducking) and layer hits (mixed under it)
+ */
+export function planHits(
+    beatGrid: RhythmAnalysis,
+    settings: HardstyleOptions,
+    regions: KickRegion[] | null,
+    duration: number
+): { events: PatternEvent[]; layerEvents: PatternEvent[] } {
+    let events = schedulePattern(
+        PATTERNS[settings.pattern] ?? PATTERNS[DEFAULT_PATTERN],
+        beatGrid.beats,
+        beatGrid.downbeat
+    );
+    const layers = layerPattern(settings.layers);
+    let layerEvents = layers ? schedulePattern(layers, beatGrid.beats, beatGrid.downbeat) : [];
+    if (regions) {
+        events = placeInRegions(events, regions, settings.crossfade, duration);
+        layerEvents = placeInRegions(layerEvents, regions, settings.crossfade, duration);
+    }
+    return { events, layerEvents };
+}
+
+/**
+ * Add hardstyle kicks to a decoded track
+ * @param essentia - Essentia instance, used when beats or key still need detecting
+ * @param channels - The track, one array per channel. Processed in place unless the tempo is conformed
+ * @param sampleRate - Track sample rate
+ * @param rhythm - Beat grid from analysis, or null to detect it here
+ * @param kickSample - Decoded kick (library or uploaded), null when settings.kickSample is SYNTH_KICK
+ * @param tockSample - Decoded offbeat sample
+ * @param settings - Resolved processing options
+ * @param report - Progress callback
+ * @returns The processed channels (longer or shorter if the tempo was conformed), the
+ *          beat grid of the original (for caching) and what the master bus measured
+ */
+export function renderHardstyle(
+    essentia: any,
+    channels: Float32Array[],
+    sampleRate: number,
+    rhythm: RhythmAnalysis | null,
+    kickSample: DecodedSample | null,
+    tockSample: DecodedSample,
+    settings: HardstyleOptions,
+    report: ProgressReporter
+): { channels: Float32Array[]; rhythm: RhythmAnalysis; master: MasterReport } {
+    const asTrack = (output: Float32Array[]): ChannelSource => ({
+        numberOfChannels: output.length,
+        length: output[0]?.length ?? 0,
+        getChannelData: channel => output[channel],
+    });
+    let track = asTrack(channels);
+
+    // Beat detection runs on a mono downmix, mixing happens on every channel
+    let mono: Float32Array | null = null;
+    const getMono = () => mono ?? (mono = downmixToMono(track));
+    let audioVector: any = null;
+    const getAudioVector = () => audioVector ?? (audioVector = essentia.arrayToVector(getMono()));
+
+    report({ stage: 'rhythm', message: 'SCANNING FOR THE DROP... 🔍', fraction: 0 });
+    const originalGrid = rhythm ?? quantizeRhythm(detectRhythm(essentia, getAudioVector()), getMono(), sampleRate);
+    let beatGrid = originalGrid;
+    let trackKey = settings.trackKey;
+
+    // Tempo conform: everything after this works on the stretched track and its grid
+    const ratio = settings.conform === 'off' ? 1 : conformRatio(settings.trackBpm ?? originalGrid.bpm, settings.targetBpm);
+    if (ratio !== 1) {
+        const message = `CRANKING ${Math.round(settings.trackBpm ?? originalGrid.bpm)} → ${Math.round(settings.targetBpm)} BPM... ⏩`;
+        report({ stage: 'tempo', message, fraction: 0.1 });
+        channels = settings.conform === 'stretch'
+            ? timeStretch(channels, getMono(), sampleRate, ratio, fraction =>
+                report({ stage: 'tempo', message, fraction: 0.1 + 0.2 * fraction }))
+            : nightcore(channels, sampleRate, ratio, settings.resampleQuality);
+        beatGrid = scaleRhythm(originalGrid, ratio);
+        // Nightcore drags the key up with the tempo
+        if (settings.conform === 'nightcore' && trackKey) {
+            trackKey = transposeNote(trackKey, nightcoreSemitones(ratio));
+        }
+        track = asTrack(channels);
+        mono = null;
+        audioVector = null;
+    }
+    const duration = track.length / sampleRate;
+    const framesTotal = track.length;
+    // Frame-by-frame stages: their own 0-1 mapped onto [from, to] of the whole render
+    const stageProgress = (stage: ProgressStage, message: string, from: number, to: number) => (fraction: number) =>
+        report({
+            stage,
+            message,
+            fraction: from + (to - from) * fraction,
+            framesProcessed: Math.round(fraction * framesTotal),
+            framesTotal,
+        });
+
+    report({ stage: 'samples', message: `LOCKED ${beatGrid.beats.length} BEATS! LOADING KICKS... 🥁`, fraction: 0.3 });
+    // Root note, detected at most once (kick tuning and the extra layers both need it)
+    let detectedRoot: string | null = null;
+    const getRoot = () => detectedRoot ?? (detectedRoot = trackKey ?? detectKey(essentia, getAudioVector(), sampleRate).key);
+    const samples = preparePatternSamples(kickSample, tockSample, settings, sampleRate, 60 / beatGrid.bpm, getRoot, report);
+
+    // Section-aware mode: find where kicks are missing before the track gets touched
+    let regions: KickRegion[] | null = null;
+    if (settings.placement === 'sections') {
+        report({ stage: 'samples', message: 'FINDING THE WEAK SPOTS... 🕵️', fraction: 0.45 });
+        const plan = planKickRegions(getMono(), sampleRate, beatGrid);
+        regions = plan.regions;
+    }
+    const fadeAt = (time: number) => regions ? regionGain(regions, time, settings.crossfade, duration) : 1;
+
+    const sidechainMessage = 'CARVING OUT ROOM FOR THE KICK... 🪓';
+    report({ stage: 'sidechain', message: sidechainMessage, fraction: 0.5, framesProcessed: 0, framesTotal });
+    applyGain(channels, settings.originalGain);
+
+    // Lay the pattern over the detected beats
+    const { events, layerEvents } = planHits(beatGrid, settings, regions, duration);
+
+    // Layers go under the ducking, so the kicks carve them out like the rest of the track
+    renderPattern(channels, layerEvents, samples, sampleRate, settings.kickGain);
+
+    // Sidechain the original track from every hit that keys it
+    const triggers = events
+        .filter(event => event.layer.ducks)
+        .map(event => ({
+            position: Math.floor(event.time * sampleRate),
+            key: samples[event.layer.sample],
+            amount: fadeAt(event.time),
+        }));
+    const envelope = buildSidechainEnvelope(track.length, triggers, sampleRate, settings.sidechain);
+    const onDucking = stageProgress('sidechain', sidechainMessage, 0.52, 0.7);
+    if (settings.sidechain.band === 'low') {
+        applyLowBandEnvelope(channels, envelope, sampleRate, settings.sidechain.crossover, onDucking);
+    } else {
+        applyEnvelope(channels, envelope, onDucking);
+    }
+
+    // Add the kick and tock hits on top
+    renderPattern(
+        channels,
+        events,
+        samples,
+        sampleRate,
+        settings.kickGain,
+        settings.kickPan,
+        stageProgress('mix', 'INJECTING THE MADNESS... 💉', 0.7, 0.75)
+    );
+
+    // Master bus instead of hard-clipping at ±1 on export
+    const master = applyMaster(
+        channels,
+        sampleRate,
+        settings.master,
+        stageProgress('master', 'MASTERING FOR THE MAINSTAGE... 🔊', 0.75, 1)
+    );
+
+    report({ stage: 'done', message: 'FINAL BOSS MODE ACTIVATED... 🎮', fraction: 1 });
+    return { channels, rhythm: originalGrid, master };
+}
@@ -0,0 +1,92 @@
+// Sample-rate conversion
+// Samples have to be played back at the track's rate, otherwise they come out pitch-shifted
+
+export type ResampleQuality = 'linear' | 'sinc';
+
+// Zero crossings on each side of the windowed-sinc kernel
+const SINC_HALF_WIDTH = 16;
+
+/**
+ * Resample with linear interpolation (fast, some aliasing)
+ */
+function resampleLinear(input: Float32Array, ratio: number, outputLength: number): Float32Array {
+    const output = new Float32Array(outputLength);
+    for (let i = 0; i < output.length; i++) {
+        const position = i * ratio;
+        const index = Math.floor(position);
+        const fraction = position - index;
+        const current = input[index] ?? 0;
+        const next = input[index + 1] ?? 0;
+        output[i] = current + (next - current) * fraction;
+    }
+    return output;
+}
+
+/**
+ * Resample with a Blackman-windowed sinc kernel (slower, clean)
+ * The cutoff drops below the source Nyquist when downsampling so nothing folds back
+ */
+function resampleSinc(input: Float32Array, ratio: number, outputLength: number): Float32Array {
+    const output = new Float32Array(outputLength);
+    const cutoff = Math.min(1, 1 / ratio);
+    const halfWidth = Math.ceil(SINC_HALF_WIDTH / cutoff);
+
+    for (let i = 0; i < output.length; i++) {
+        const position = i * ratio;
+        const center = Math.floor(position);
+        let sum = 0;
+
+        for (let tap = center - halfWidth + 1; tap <= center + halfWidth; tap++) {
+            if (tap < 0 || tap >= input.length) continue;
+
+            const distance = position - tap;
+            const x = distance * cutoff;
+            const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+            const windowPosition = (distance + halfWidth) / (2 * halfWidth);
+            const window = 0.42
+                - 0.5 * Math.cos(2 * Math.PI * windowPosition)
+                + 0.08 * Math.cos(4 * Math.PI * windowPosition);
+            sum += input[tap] * sinc * window * cutoff;
+        }
+
+        output[i] = sum;
+    }
+    return output;
+}
+
+/**
+ * Convert samples from one rate to another
+ * @param input - Mono samples at fromRate
+ * @param fromRate - Source sample rate
+ * @param toRate - Target sample rate
+ * @param quality - 'linear' (fast) or 'sinc' (windowed-sinc, band-limited)
+ * @returns Samples at toRate (the input itself if the rates already match)
+ */
+export function resample(
+    input: Float32Array,
+    fromRate: number,
+    toRate: number,
+    quality: ResampleQuality = 'sinc'
+): Float32Array {
+    if (fromRate === toRate) return input;
+
+    const ratio = fromRate / toRate;
+    const outputLength = Math.round(input.length / ratio);
+    return quality === 'linear'
+        ? resampleLinear(input, ratio, outputLength)
+        : resampleSinc(input, ratio, outputLength);
+}
+
+/**
+ * First channel of a decoded sample, at the track's rate
+ * @param decoded - Decoded sample (Web Audio AudioBuffer or audio-decode output)
+ * @param trackSampleRate - Rate it will be mixed at
+ * @param quality - Resampling quality
+ */
+export function toTrackRate(
+    decoded: { sampleRate: number; getChannelData(channel: number): Float32Array },
+    trackSampleRate: number,
+    quality: ResampleQuality = 'sinc'
+): Float32Array {
+    return resample(decoded.getChannelData(0), decoded.sampleRate, trackSampleRate, quality);
+}
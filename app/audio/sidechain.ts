@@ -0,0 +1,228 @@
+// Sidechain compressor
+// Builds a gain curve for the original track from kick placements (or the kick's own envelope)
+
+import { splitBands } from './crossover';
+
+export interface SidechainSettings {
+    depth: number; // 0-1, how much gain is taken away at full reduction (0.8 = duck to 20%)
+    attack: number; // seconds to reach full reduction
+    hold: number; // seconds to stay fully ducked
+    release: number; // seconds to recover (~99%) with an exponential curve
+    keyedFrom: 'placement' | 'sample'; // fixed shape per hit, or follow the kick's amplitude
+    band: 'full' | 'low'; // duck the whole track, or only what's under the crossover
+    crossover: number; // Hz, split point when band === 'low'
+}
+
+export const DEFAULT_SIDECHAIN: SidechainSettings = {
+    depth: 0.8,
+    attack: 0.005,
+    hold: 0.05,
+    release: 0.15,
+    keyedFrom: 'placement',
+    band: 'full',
+    crossover: 150,
+};
+
+/**
+ * One hit that triggers the sidechain
+ */
+export interface SidechainTrigger {
+    position: number; // sample position of the hit
+    key?: Float32Array; // the sample being played, used when keyedFrom === 'sample'
+    amount?: number; // 0-1 scale on this hit's reduction (default 1), for fading ducking in and out
+}
+
+// Release is specified as time to ~99% recovery, which is 5 time constants
+const RELEASE_TIME_CONSTANTS = 5;
+// Samples processed between progress reports
+const PROGRESS_BLOCK = 65536;
+
+/**
+ * Reduction curve (0 = untouched, 1 = fully ducked) for a single placement-keyed hit
+ * Starts attackSamples before the hit
+ */
+function placementCurve(settings: SidechainSettings, sampleRate: number): { curve: Float32Array; offset: number } {
+    const attackSamples = Math.max(1, Math.floor(settings.attack * sampleRate));
+    const holdSamples = Math.floor(settings.hold * sampleRate);
+    const releaseSamples = Math.floor(settings.release * sampleRate);
+    const tau = Math.max(1, releaseSamples / RELEASE_TIME_CONSTANTS);
+
+    const curve = new Float32Array(attackSamples + holdSamples + releaseSamples);
+    for (let i = 0; i < attackSamples; i++) {
+        // Raised-cosine attack so the gain doesn't kink at the start
+        curve[i] = 0.5 - 0.5 * Math.cos((Math.PI * i) / attackSamples);
+    }
+    curve.fill(1, attackSamples, attackSamples + holdSamples);
+    for (let i = 0; i < releaseSamples; i++) {
+        curve[attackSamples + holdSamples + i] = Math.exp(-i / tau);
+    }
+
+    return { curve, offset: -attackSamples };
+}
+
+/**
+ * Reduction curve that follows the amplitude of the key sample, like a real compressor
+ * fed with the kick on its sidechain input
+ */
+function sampleCurve(key: Float32Array, settings: SidechainSettings, sampleRate: number): { curve: Float32Array; offset: number } {
+    const attackCoef = Math.exp(-1 / Math.max(1, settings.attack * sampleRate));
+    const releaseCoef = Math.exp(-RELEASE_TIME_CONSTANTS / Math.max(1, settings.release * sampleRate));
+    const holdSamples = Math.floor(settings.hold * sampleRate);
+    const releaseSamples = Math.floor(settings.release * sampleRate);
+
+    let peak = 0;
+    for (let i = 0; i < key.length; i++) {
+        peak = Math.max(peak, Math.abs(key[i]));
+    }
+    if (peak === 0) return { curve: new Float32Array(0), offset: 0 };
+
+    const curve = new Float32Array(key.length + holdSamples + releaseSamples);
+    let level = 0;
+    let holdCounter = 0;
+    for (let i = 0; i < curve.length; i++) {
+        const input = i < key.length ? Math.abs(key[i]) / peak : 0;
+        if (input > level) {
+            level = input + attackCoef * (level - input);
+            holdCounter = holdSamples;
+        } else if (holdCounter > 0) {
+            holdCounter--;
+        } else {
+            level *= releaseCoef;
+        }
+        curve[i] = level;
+    }
+
+    return { curve, offset: 0 };
+}
+
+/**
+ * Build the sidechain gain curve for a whole track
+ * Overlapping hits take the deepest reduction instead of stacking
+ * @param length - Track length in samples
+ * @param triggers - Hits that key the compressor
+ * @param sampleRate - Track sample rate
+ * @param settings - Compressor settings
+ * @returns Gain per sample (1 = untouched)
+ */
+export function buildSidechainEnvelope(
+    length: number,
+    triggers: SidechainTrigger[],
+    sampleRate: number,
+    settings: SidechainSettings = DEFAULT_SIDECHAIN
+): Float32Array {
+    const reduction = new Float32Array(length);
+    const placement = placementCurve(settings, sampleRate);
+    const sampleCurves = new Map<Float32Array, { curve: Float32Array; offset: number }>();
+
+    for (const trigger of triggers) {
+        let shape = placement;
+        if (settings.keyedFrom === 'sample' && trigger.key) {
+            if (!sampleCurves.has(trigger.key)) {
+                sampleCurves.set(trigger.key, sampleCurve(trigger.key, settings, sampleRate));
+            }
+            shape = sampleCurves.get(trigger.key)!;
+        }
+
+        const start = trigger.position + shape.offset;
+        const amount = trigger.amount ?? 1;
+        for (let i = Math.max(0, -start); i < shape.curve.length; i++) {
+            const index = start + i;
+            if (index >= length) break;
+            const value = shape.curve[i] * amount;
+            if (value > reduction[index]) {
+                reduction[index] = value;
+            }
+        }
+    }
+
+    const depth = Math.max(0, Math.min(1, settings.depth));
+    for (let i = 0; i < length; i++) {
+        reduction[i] = 1 - depth * reduction[i];
+    }
+    return reduction;
+}
+
+/**
+ * Multiply every channel by a gain curve
+ * @param channels - Channels to process in place
+ * @param envelope - Gain per sample
+ * @param onProgress - Called with 0-1 as blocks of samples are processed
+ */
+export function applyEnvelope(channels: Float32Array[], envelope: Float32Array, onProgress?: (fraction: number) => void): void {
+    channels.forEach((channel, index) => {
+        const length = Math.min(channel.length, envelope.length);
+        for (let i = 0; i < length; i++) {
+            channel[i] *= envelope[i];
+            if (onProgress && i % PROGRESS_BLOCK === 0) onProgress((index + i / length) / channels.length);
+        }
+    });
+}
+
+/**
+ * Duck only the low band: split each channel at the crossover, multiply the lows by the
+ * gain curve and sum the highs back untouched, so the sub makes room for the kick while
+ * the mids and highs keep their full level
+ * @param channels - Channels to process in place
+ * @param envelope - Gain per sample
+ * @param sampleRate - Track sample rate
+ * @param crossover - Split frequency in Hz
+ * @param onProgress - Called with 0-1 as blocks of samples are processed
+ */
+export function applyLowBandEnvelope(
+    channels: Float32Array[],
+    envelope: Float32Array,
+    sampleRate: number,
+    crossover: number,
+    onProgress?: (fraction: number) => void
+): void {
+    channels.forEach((channel, index) => {
+        // The split is about half the work of each channel
+        onProgress?.(index / channels.length);
+        const { low, high } = splitBands(channel, sampleRate, crossover);
+        for (let i = 0; i < channel.length; i++) {
+            channel[i] = low[i] * (i < envelope.length ? envelope[i] : 1) + high[i];
+            if (onProgress && i % PROGRESS_BLOCK === 0) onProgress((index + 0.5 + i / channel.length / 2) / channels.length);
+        }
+    });
+}
+
+/**
+ * One setTargetAtTime call on a GainNode's gain
+ */
+export interface DuckStep {
+    time: number; // seconds
+    target: number; // gain to head for
+    timeConstant: number; // seconds
+}
+
+// The attack reaches ~95% of the reduction in 3 time constants
+const ATTACK_TIME_CONSTANTS = 3;
+
+/**
+ * The sidechain as GainNode automation (live preview and its offline print)
+ * Always the placement-keyed shape, with exponential segments instead of the raised-cosine attack.
+ * A hit whose attack starts before the previous hold ends keeps the gain down instead of releasing
+ * @param hits - Hits that key the ducking, sorted by time, with their 0-1 amount
+ * @param settings - Compressor settings
+ * @returns Automation steps in time order
+ */
+export function duckingSteps(hits: { time: number; amount: number }[], settings: SidechainSettings): DuckStep[] {
+    const depth = Math.max(0, Math.min(1, settings.depth));
+    const steps: DuckStep[] = [];
+    hits.forEach((hit, index) => {
+        steps.push({
+            time: Math.max(0, hit.time - settings.attack),
+            target: 1 - depth * hit.amount,
+            timeConstant: Math.max(0.001, settings.attack) / ATTACK_TIME_CONSTANTS,
+        });
+        const releaseAt = hit.time + settings.hold;
+        const next = hits[index + 1];
+        if (next && next.time - settings.attack <= releaseAt) return;
+        steps.push({
+            time: releaseAt,
+            target: 1,
+            timeConstant: Math.max(0.001, settings.release) / RELEASE_TIME_CONSTANTS,
+        });
+    });
+    return steps;
+}
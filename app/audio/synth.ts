@@ -0,0 +1,118 @@
+// Kick synthesizer
+// Builds a hardstyle kick from scratch (pitch-swept sine, tanh distortion, click) instead of
+// loading hskick.wav, rendered straight at the track's sample rate
+
+import { noteToFrequency } from './tuning';
+
+export type KickSynthStyle = 'classic' | 'reverse';
+
+export interface KickSynthSettings {
+    startPitch: number; // Hz at the hit, swept down to tailPitch
+    pitchDecay: number; // seconds, time constant of the pitch sweep
+    tailPitch: number; // Hz the tail settles on
+    tailLength: number; // seconds until the tail is gone
+    distortion: number; // dB of drive into the waveshaper, 0 = clean sine
+    click: number; // 0-1, level of the transient click on top
+    style: KickSynthStyle; // classic tail, or a reversed tail that swells into the next beat
+}
+
+export const DEFAULT_KICK_SYNTH: KickSynthSettings = {
+    startPitch: 450,
+    pitchDecay: 0.025,
+    tailPitch: 55,
+    tailLength: 0.35,
+    distortion: 18,
+    click: 0.5,
+    style: 'classic',
+};
+
+// The punch (pitch sweep) is left untouched by the reverse style, only the tail after it flips
+const PUNCH_SECONDS = 0.06;
+// Fade at the end of the tail so it doesn't click
+const FADE_SECONDS = 0.01;
+// Click: a short decaying high sine plus noise
+const CLICK_FREQUENCY = 3500;
+const CLICK_DECAY = 0.003;
+// Leave a little headroom, like the bundled samples
+const PEAK = 0.95;
+
+/**
+ * Raised-cosine fade-in/out gain at position i of a fade `length` samples long
+ */
+function fade(i: number, length: number): number {
+    return 0.5 - 0.5 * Math.cos((Math.PI * Math.min(i, length)) / length);
+}
+
+/**
+ * Render a kick from its settings
+ * @param settings - Synth parameters
+ * @param sampleRate - Track sample rate
+ * @returns Mono kick samples, normalized to just under full scale
+ */
+export function synthesizeKick(settings: KickSynthSettings, sampleRate: number): Float32Array {
+    const length = Math.max(1, Math.round(Math.max(PUNCH_SECONDS, settings.tailLength) * sampleRate));
+    const punch = Math.min(length, Math.round(PUNCH_SECONDS * sampleRate));
+    const fadeSamples = Math.max(1, Math.round(FADE_SECONDS * sampleRate));
+    const drive = Math.pow(10, Math.max(0, settings.distortion) / 20);
+    const shaperNorm = Math.tanh(drive);
+    const decay = Math.max(1e-4, settings.pitchDecay);
+
+    const output = new Float32Array(length);
+    let phase = 0;
+    for (let i = 0; i < length; i++) {
+        const t = i / sampleRate;
+        const frequency = settings.tailPitch + (settings.startPitch - settings.tailPitch) * Math.exp(-t / decay);
+        phase += (2 * Math.PI * frequency) / sampleRate;
+        // Full level through the body, raised-cosine fade over the last fadeSamples
+        const envelope = fade(length - i, fadeSamples);
+        output[i] = (Math.tanh(drive * Math.sin(phase)) / shaperNorm) * envelope;
+    }
+
+    // Reverse-bass style: keep the punch, flip the tail and swell it up from silence so it
+    // builds into the next beat instead of dying away (distortion leaves the tail too flat to hear the flip)
+    if (settings.style === 'reverse' && length > punch) {
+        const tail = output.slice(punch).reverse();
+        for (let i = 0; i < tail.length; i++) {
+            const swell = i / tail.length;
+            output[punch + i] = tail[i] * swell * swell;
+        }
+        for (let i = 0; i < fadeSamples && punch - 1 - i >= 0; i++) {
+            output[punch - 1 - i] *= fade(i, fadeSamples);
+        }
+    }
+
+    if (settings.click > 0) {
+        const clickLength = Math.min(length, Math.round(CLICK_DECAY * 5 * sampleRate));
+        for (let i = 0; i < clickLength; i++) {
+            const t = i / sampleRate;
+            const noise = Math.random() * 2 - 1;
+            const tone = Math.sin(2 * Math.PI * CLICK_FREQUENCY * t);
+            output[i] += settings.click * Math.exp(-t / CLICK_DECAY) * (0.6 * tone + 0.4 * noise);
+        }
+    }
+
+    let peak = 0;
+    for (let i = 0; i < length; i++) {
+        peak = Math.max(peak, Math.abs(output[i]));
+    }
+    if (peak > 0) {
+        for (let i = 0; i < length; i++) {
+            output[i] *= PEAK / peak;
+        }
+    }
+    return output;
+}
+
+/**
+ * Retune the synth's tail to a root note, in the octave closest to its current tail pitch
+ * (no resampling needed, the kick is just rendered at the new pitch)
+ * @param settings - Synth parameters
+ * @param note - Root note, e.g. 'F#'
+ * @returns Settings with tailPitch moved to the root, or unchanged for an unknown note
+ */
+export function tuneKickSynth(settings: KickSynthSettings, note: string): KickSynthSettings {
+    const rootFrequency = noteToFrequency(note, 0);
+    if (rootFrequency === null || !(settings.tailPitch > 0)) return settings;
+    const octaves = Math.round(Math.log2(settings.tailPitch / rootFrequency));
+    return { ...settings, tailPitch: rootFrequency * Math.pow(2, octaves) };
+}
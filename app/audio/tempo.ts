@@ -0,0 +1,174 @@
+// Tempo conform
+// Speeds the original up (or down) to the target BPM before the kicks go on, either
+// keeping the pitch (WSOLA time-stretch) or nightcore style (resample, pitch follows tempo)
+
+import type { RhythmAnalysis } from './analysis';
+import { resample, ResampleQuality } from './resample';
+
+export type ConformMode = 'off' | 'stretch' | 'nightcore';
+
+// Don't stretch further than this either way: past it, it's a different song
+const MIN_RATIO = 0.5;
+const MAX_RATIO = 2;
+// Ratios this close to 1 aren't worth touching the audio for
+const RATIO_EPSILON = 0.002;
+
+// WSOLA grain length, and how far a grain may move to line up with the previous one
+const GRAIN_SECONDS = 0.04;
+const TOLERANCE_SECONDS = 0.01;
+// Coarse alignment search step (and correlation decimation) in samples, refined at full resolution after
+const COARSE_STEP = 4;
+
+/**
+ * Speed ratio to get from the track's tempo to the target (2 = twice as fast)
+ * @param trackBpm - Detected tempo (BanificationScore.bpm)
+ * @param targetBpm - Tempo to conform to
+ * @returns Ratio clamped to 0.5-2, or 1 if either tempo is unknown
+ */
+export function conformRatio(trackBpm: number, targetBpm: number): number {
+    if (!(trackBpm > 0) || !(targetBpm > 0)) return 1;
+    const ratio = Math.max(MIN_RATIO, Math.min(MAX_RATIO, targetBpm / trackBpm));
+    return Math.abs(ratio - 1) < RATIO_EPSILON ? 1 : ratio;
+}
+
+/**
+ * Move a beat grid to the conformed timeline
+ * @param rhythm - Beat grid of the original
+ * @param ratio - Speed ratio from conformRatio
+ */
+export function scaleRhythm(rhythm: RhythmAnalysis, ratio: number): RhythmAnalysis {
+    return {
+        ...rhythm,
+        bpm: rhythm.bpm * ratio,
+        beats: rhythm.beats.map(time => time / ratio),
+    };
+}
+
+/**
+ * Find the grain start near `nominal` whose start best continues `reference` (cross-correlation)
+ */
+function bestOffset(
+    guide: Float32Array,
+    reference: number,
+    nominal: number,
+    grain: number,
+    tolerance: number
+): number {
+    const correlate = (start: number, step: number) => {
+        let sum = 0;
+        for (let i = 0; i < grain; i += step) {
+            sum += (guide[reference + i] ?? 0) * (guide[start + i] ?? 0);
+        }
+        return sum;
+    };
+
+    const low = Math.max(0, nominal - tolerance);
+    const high = Math.max(low, Math.min(guide.length - grain, nominal + tolerance));
+    let best = nominal < guide.length - grain ? nominal : low;
+    let bestScore = -Infinity;
+    for (let start = low; start <= high; start += COARSE_STEP) {
+        const score = correlate(start, COARSE_STEP);
+        if (score > bestScore) {
+            bestScore = score;
+            best = start;
+        }
+    }
+
+    const coarse = best;
+    for (let start = Math.max(low, coarse - COARSE_STEP + 1); start < Math.min(high, coarse + COARSE_STEP); start++) {
+        const score = correlate(start, 2);
+        if (score > bestScore) {
+            bestScore = score;
+            best = start;
+        }
+    }
+    return best;
+}
+
+/**
+ * Change tempo without changing pitch (WSOLA: overlap-add of Hann grains, each one shifted
+ * slightly so its waveform lines up with where the previous grain left off)
+ * Grain positions are chosen on the mono guide and applied to every channel, so the stereo image holds
+ * @param channels - Original channels
+ * @param guide - Mono downmix used for alignment
+ * @param sampleRate - Sample rate
+ * @param ratio - Speed ratio (2 = twice as fast, half the length)
+ * @param onProgress - Called with 0-1 as grains are placed
+ * @returns New channels, length / ratio samples
+ */
+export function timeStretch(
+    channels: Float32Array[],
+    guide: Float32Array,
+    sampleRate: number,
+    ratio: number,
+    onProgress?: (fraction: number) => void
+): Float32Array[] {
+    const grain = 2 * Math.round((GRAIN_SECONDS * sampleRate) / 2);
+    const synthesisHop = grain / 2;
+    const analysisHop = synthesisHop * ratio;
+    const tolerance = Math.round(TOLERANCE_SECONDS * sampleRate);
+    const outputLength = Math.round(guide.length / ratio);
+
+    const window = new Float32Array(grain);
+    for (let i = 0; i < grain; i++) {
+        window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / grain);
+    }
+
+    const outputs = channels.map(() => new Float32Array(outputLength + grain));
+    const norm = new Float32Array(outputLength + grain);
+    const grainCount = Math.ceil(outputLength / synthesisHop);
+    let previous = 0;
+
+    for (let k = 0; k < grainCount; k++) {
+        const nominal = Math.round(k * analysisHop);
+        // The first grain has nothing to line up with
+        const start = k === 0 ? 0 : bestOffset(guide, previous + synthesisHop, nominal, grain, tolerance);
+        const outputStart = k * synthesisHop;
+
+        channels.forEach((input, channel) => {
+            const output = outputs[channel];
+            for (let i = 0; i < grain; i++) {
+                output[outputStart + i] += (input[start + i] ?? 0) * window[i];
+            }
+        });
+        for (let i = 0; i < grain; i++) {
+            norm[outputStart + i] += window[i];
+        }
+        previous = start;
+
+        if (onProgress && k % 256 === 0) onProgress(k / grainCount);
+    }
+
+    return outputs.map(output => {
+        const trimmed = output.subarray(0, outputLength);
+        for (let i = 0; i < outputLength; i++) {
+            if (norm[i] > 1e-3) trimmed[i] /= norm[i];
+        }
+        return trimmed.slice();
+    });
+}
+
+/**
+ * Nightcore: play the track back faster, so the pitch goes up with the tempo
+ * @param channels - Original channels
+ * @param sampleRate - Sample rate
+ * @param ratio - Speed ratio
+ * @param quality - Resampling quality
+ * @returns New channels, length / ratio samples
+ */
+export function nightcore(
+    channels: Float32Array[],
+    sampleRate: number,
+    ratio: number,
+    quality: ResampleQuality
+): Float32Array[] {
+    // Treat the audio as if it had been recorded at a higher rate, then bring it back to the track rate
+    return channels.map(channel => resample(channel, sampleRate * ratio, sampleRate, quality));
+}
+
+/**
+ * Semitones a nightcore conform shifts the pitch by
+ */
+export function nightcoreSemitones(ratio: number): number {
+    return 12 * Math.log2(ratio);
+}
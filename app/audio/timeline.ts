@@ -0,0 +1,204 @@
+// Time-resolved analysis
+// Splits the track into 4-bar windows on the beat grid, measures each one, and segments
+// the track into intro/build/drop/breakdown from jumps in window energy
+
+import type { RhythmAnalysis } from './analysis';
+
+export type SectionType = 'intro' | 'build' | 'drop' | 'breakdown';
+
+export const BEATS_PER_WINDOW = 16; // 4 bars of 4/4
+
+/**
+ * Raw measurements for one window (same units as the track-wide TrackFeatures)
+ */
+export interface WindowFeatures {
+    start: number; // seconds
+    end: number; // seconds
+    energy: number; // scaled to the track length, so it scores like the whole-track energy
+    rms: number;
+    zcr: number;
+    spectralEnergy: number; // mean HFC
+    spectralCentroid: number; // Hz
+}
+
+/**
+ * A run of windows that belong together
+ */
+export interface Section {
+    type: SectionType;
+    start: number; // seconds
+    end: number; // seconds
+    level: number; // 0-1, loudness relative to the quietest and loudest window
+}
+
+/**
+ * One point of the banger curve
+ */
+export interface TimelineWindow {
+    start: number; // seconds
+    end: number; // seconds
+    score: number; // 0-100, scored like the whole track
+    section: SectionType;
+}
+
+/**
+ * Per-frame measurements collected by the analysis frame loops
+ */
+export interface FrameFeatures {
+    hopSize: number;
+    frameSize: number;
+    zcr: number[];
+    hfc: number[];
+    centroid: number[];
+}
+
+// Minimum jump in relative loudness between windows that starts a new section
+const NOVELTY_THRESHOLD = 0.2;
+// Sections at least this loud (relative) count as drops
+const DROP_LEVEL = 0.7;
+// First window shorter than this gets merged into the next one
+const MIN_WINDOW = 1;
+
+/**
+ * Window boundaries every BEATS_PER_WINDOW beats from the first downbeat, from 0 to the end of the track
+ * Falls back to a fixed 4-bar length at the detected BPM when there are no beats
+ * @param rhythm - Beat grid
+ * @param duration - Track length in seconds
+ * @returns Boundaries in seconds, starting at 0 and ending at duration
+ */
+export function windowBoundaries(rhythm: RhythmAnalysis, duration: number): number[] {
+    const boundaries = [0];
+    if (rhythm.beats.length > BEATS_PER_WINDOW) {
+        for (let beat = rhythm.downbeat ?? 0; beat < rhythm.beats.length; beat += BEATS_PER_WINDOW) {
+            boundaries.push(rhythm.beats[beat]);
+        }
+    } else {
+        const windowLength = (BEATS_PER_WINDOW * 60) / (rhythm.bpm || 120);
+        for (let time = windowLength; time < duration; time += windowLength) {
+            boundaries.push(time);
+        }
+    }
+
+    // Pickup before the first downbeat: too short to score on its own
+    if (boundaries.length > 2 && boundaries[1] < MIN_WINDOW) {
+        boundaries.splice(1, 1);
+    }
+    // The last window runs to the end, unless it would be a sliver
+    if (duration - boundaries[boundaries.length - 1] < MIN_WINDOW && boundaries.length > 1) {
+        boundaries.pop();
+    }
+    boundaries.push(duration);
+    return boundaries.filter((time, index) => index === 0 || time > boundaries[index - 1]);
+}
+
+/**
+ * Measure every window
+ * @param audioData - Mono audio
+ * @param sampleRate - Sample rate of the audio
+ * @param boundaries - From windowBoundaries
+ * @param frames - Per-frame ZCR/HFC/centroid from the analysis loops
+ * @returns One WindowFeatures per window
+ */
+export function measureWindows(
+    audioData: Float32Array,
+    sampleRate: number,
+    boundaries: number[],
+    frames: FrameFeatures
+): WindowFeatures[] {
+    const windows: WindowFeatures[] = [];
+
+    for (let w = 0; w + 1 < boundaries.length; w++) {
+        const start = boundaries[w];
+        const end = boundaries[w + 1];
+        const first = Math.floor(start * sampleRate);
+        const last = Math.min(audioData.length, Math.floor(end * sampleRate));
+        const length = Math.max(1, last - first);
+
+        let sumSquares = 0;
+        for (let i = first; i < last; i++) {
+            sumSquares += audioData[i] * audioData[i];
+        }
+
+        // Frames belong to the window their center falls in
+        let zcr = 0, hfc = 0, centroid = 0, count = 0;
+        const firstFrame = Math.max(0, Math.ceil((first - frames.frameSize / 2) / frames.hopSize));
+        for (let f = firstFrame; f < frames.hfc.length; f++) {
+            const center = f * frames.hopSize + frames.frameSize / 2;
+            if (center >= last) break;
+            zcr += frames.zcr[f] ?? 0;
+            hfc += frames.hfc[f];
+            centroid += frames.centroid[f];
+            count++;
+        }
+
+        windows.push({
+            start,
+            end,
+            energy: sumSquares * (audioData.length / length),
+            rms: Math.sqrt(sumSquares / length),
+            zcr: count > 0 ? zcr / count : 0,
+            spectralEnergy: count > 0 ? hfc / count : 0,
+            spectralCentroid: count > 0 ? centroid / count : 0,
+        });
+    }
+    return windows;
+}
+
+/**
+ * Split the track into sections where window loudness jumps, then label each one
+ * Loud sections are drops, quiet ones intros (before the first drop) or breakdowns,
+ * and a section that rises into a drop is a build
+ * @param windows - From measureWindows (only the bounds and RMS are used)
+ * @returns Sections covering the whole track, in order
+ */
+export function segmentSections(windows: Pick<WindowFeatures, 'start' | 'end' | 'rms'>[]): Section[] {
+    if (windows.length === 0) return [];
+
+    const levels = windows.map(window => 20 * Math.log10(window.rms + 1e-9));
+    const quietest = Math.min(...levels);
+    const range = Math.max(...levels) - quietest || 1;
+    const relative = levels.map(level => (level - quietest) / range);
+
+    // Group windows between novelty peaks
+    const groups: number[][] = [[0]];
+    for (let w = 1; w < windows.length; w++) {
+        if (Math.abs(relative[w] - relative[w - 1]) >= NOVELTY_THRESHOLD) {
+            groups.push([]);
+        }
+        groups[groups.length - 1].push(w);
+    }
+
+    const levelOf = (group: number[]) => group.reduce((sum, w) => sum + relative[w], 0) / group.length;
+    const sections: Section[] = groups.map(group => ({
+        type: 'breakdown',
+        start: windows[group[0]].start,
+        end: windows[group[group.length - 1]].end,
+        level: levelOf(group),
+    }));
+
+    let seenDrop = false;
+    sections.forEach((section, index) => {
+        const next = sections[index + 1];
+        const group = groups[index];
+        const rising = relative[group[group.length - 1]] - relative[group[0]] >= NOVELTY_THRESHOLD / 2;
+
+        if (section.level >= DROP_LEVEL) {
+            section.type = 'drop';
+            seenDrop = true;
+        } else if (next && next.level >= DROP_LEVEL && (rising || section.level >= DROP_LEVEL / 2)) {
+            section.type = index === 0 && !rising ? 'intro' : 'build';
+        } else if (!seenDrop) {
+            section.type = 'intro';
+        } else {
+            section.type = 'breakdown';
+        }
+    });
+    return sections;
+}
+
+/**
+ * Which section a point in time falls in
+ */
+export function sectionAt(sections: Section[], time: number): SectionType {
+    return (sections.find(section => time >= section.start && time < section.end) ?? sections[sections.length - 1])?.type ?? 'drop';
+}
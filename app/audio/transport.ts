@@ -0,0 +1,247 @@
+// Preview transport
+// Play/pause/seek/loop over the original and the processed track on the shared AudioContext,
+// with an A/B switch that keeps the playhead where it is
+
+import { getAudioContext } from './loader';
+
+export type PreviewSource = 'original' | 'processed';
+
+/**
+ * Loop region in seconds of the source that's playing
+ */
+export interface LoopRegion {
+    start: number;
+    end: number;
+}
+
+export interface TransportState {
+    playing: boolean;
+    source: PreviewSource;
+    duration: number; // seconds, of the current source
+    loop: LoopRegion | null;
+}
+
+// Fade when a voice is stopped or swapped, so A/B switches and seeks don't click
+const FADE_SECONDS = 0.01;
+// Shortest loop the transport will play
+const MIN_LOOP_SECONDS = 0.05;
+
+/**
+ * A playing buffer and the gain it fades out through
+ */
+interface Voice {
+    node: AudioBufferSourceNode;
+    gain: GainNode;
+}
+
+export class Transport {
+    private context: AudioContext;
+    private buffers: Record<PreviewSource, AudioBuffer | null> = { original: null, processed: null };
+    private source: PreviewSource = 'processed';
+    private voice: Voice | null = null;
+    private offset = 0; // position (seconds) when the voice started, or the paused position
+    private startedAt = 0; // context time the voice started
+    private loop: LoopRegion | null = null;
+    private listeners = new Set<(state: TransportState) => void>();
+
+    constructor(context: AudioContext = getAudioContext()) {
+        this.context = context;
+    }
+
+    /**
+     * Swap in new buffers (after a render), keeping the playhead if possible
+     * @param original - The decoded upload
+     * @param processed - The render
+     */
+    setBuffers(original: AudioBuffer | null, processed: AudioBuffer | null): void {
+        const position = this.getPosition();
+        const duration = this.getDuration();
+        this.buffers = { original, processed };
+        if (!this.buffers[this.source]) this.source = original ? 'original' : 'processed';
+        this.relocate(position, duration);
+    }
+
+    /**
+     * Current state (the position moves on its own, read it with getPosition)
+     */
+    getState(): TransportState {
+        return {
+            playing: this.voice !== null,
+            source: this.source,
+            duration: this.getDuration(),
+            loop: this.loop,
+        };
+    }
+
+    /**
+     * Listen for play/pause/source/loop changes
+     * @returns A function that unsubscribes
+     */
+    subscribe(listener: (state: TransportState) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    getDuration(): number {
+        return this.buffers[this.source]?.duration ?? 0;
+    }
+
+    /**
+     * Playhead in seconds (wrapped into the loop region while looping)
+     */
+    getPosition(): number {
+        if (!this.voice) return this.offset;
+        const position = this.offset + (this.context.currentTime - this.startedAt);
+        if (this.loop && position >= this.loop.end) {
+            const length = this.loop.end - this.loop.start;
+            return this.loop.start + ((position - this.loop.start) % length);
+        }
+        return Math.min(position, this.getDuration());
+    }
+
+    async play(): Promise<void> {
+        if (this.voice || !this.buffers[this.source]) return;
+        // Browsers start the context suspended until a user gesture
+        if (this.context.state === 'suspended') await this.context.resume();
+        this.start(this.offset);
+        this.notify();
+    }
+
+    pause(): void {
+        if (!this.voice) return;
+        this.offset = this.getPosition();
+        this.stopVoice();
+        this.notify();
+    }
+
+    toggle(): Promise<void> {
+        if (this.voice) {
+            this.pause();
+            return Promise.resolve();
+        }
+        return this.play();
+    }
+
+    /**
+     * Jump to a position, playing on from there if already playing
+     * @param seconds - Position in the current source
+     */
+    seek(seconds: number): void {
+        this.offset = Math.max(0, Math.min(seconds, this.getDuration()));
+        if (this.voice) this.start(this.offset);
+        this.notify();
+    }
+
+    /**
+     * A/B switch: same spot in the other buffer
+     * (scaled by the length ratio, since a tempo conform changes the length)
+     */
+    setSource(source: PreviewSource): void {
+        if (source === this.source || !this.buffers[source]) return;
+        const position = this.getPosition();
+        const duration = this.getDuration();
+        this.source = source;
+        this.relocate(position, duration);
+        this.notify();
+    }
+
+    /**
+     * Loop a region of the current source, or stop looping
+     */
+    setLoop(region: LoopRegion | null): void {
+        const duration = this.getDuration();
+        this.loop = region && {
+            start: Math.max(0, Math.min(region.start, duration - MIN_LOOP_SECONDS)),
+            end: Math.min(duration, Math.max(region.end, region.start + MIN_LOOP_SECONDS)),
+        };
+        if (this.voice) this.start(this.getPosition());
+        this.notify();
+    }
+
+    /**
+     * Stop and let go of the buffers (the context is shared, so it stays open)
+     */
+    dispose(): void {
+        this.stopVoice();
+        this.buffers = { original: null, processed: null };
+        this.offset = 0;
+        this.loop = null;
+        this.notify();
+    }
+
+    /**
+     * Carry the playhead and loop over to a source of a different length, restarting if playing
+     */
+    private relocate(position: number, previousDuration: number): void {
+        const duration = this.getDuration();
+        const scale = previousDuration > 0 && duration > 0 ? duration / previousDuration : 1;
+        if (this.loop) {
+            this.loop = { start: this.loop.start * scale, end: Math.min(duration, this.loop.end * scale) };
+        }
+        this.offset = Math.min(position * scale, duration);
+        if (!this.buffers[this.source]) {
+            this.stopVoice();
+        } else if (this.voice) {
+            this.start(this.offset);
+        }
+    }
+
+    /**
+     * Start a voice at a position, fading out whatever was playing
+     */
+    private start(position: number): void {
+        const buffer = this.buffers[this.source];
+        if (!buffer) return;
+        this.stopVoice();
+
+        // Starting outside the loop would never reach it
+        if (this.loop && (position < this.loop.start || position >= this.loop.end)) {
+            position = this.loop.start;
+        }
+        if (position >= buffer.duration) position = 0;
+
+        const now = this.context.currentTime;
+        const node = this.context.createBufferSource();
+        const gain = this.context.createGain();
+        node.buffer = buffer;
+        if (this.loop) {
+            node.loop = true;
+            node.loopStart = this.loop.start;
+            node.loopEnd = this.loop.end;
+        }
+        gain.gain.setValueAtTime(0, now);
+        gain.gain.linearRampToValueAtTime(1, now + FADE_SECONDS);
+        node.connect(gain).connect(this.context.destination);
+
+        const voice = { node, gain };
+        node.onended = () => {
+            // Only a voice that ran out by itself ends playback, not one that was replaced
+            if (this.voice !== voice) return;
+            this.voice = null;
+            this.offset = 0;
+            this.notify();
+        };
+        node.start(now, position);
+        this.voice = voice;
+        this.offset = position;
+        this.startedAt = now;
+    }
+
+    private stopVoice(): void {
+        if (!this.voice) return;
+        const { node, gain } = this.voice;
+        this.voice = null;
+        const now = this.context.currentTime;
+        gain.gain.cancelScheduledValues(now);
+        gain.gain.setValueAtTime(gain.gain.value, now);
+        gain.gain.linearRampToValueAtTime(0, now + FADE_SECONDS);
+        node.stop(now + FADE_SECONDS);
+    }
+
+    private notify(): void {
+        const state = this.getState();
+        this.listeners.forEach(listener => listener(state));
+    }
+}
@@ -0,0 +1,125 @@
+// Kick tuning
+// Hardstyle kicks are tuned to the root of the track - find the tail's pitch and shift it there
+
+import { resample, ResampleQuality } from './resample';
+
+const NOTE_INDEX: Record<string, number> = {
+    'C': 0, 'C#': 1, 'Db': 1, 'D': 2, 'D#': 3, 'Eb': 3, 'E': 4, 'F': 5,
+    'F#': 6, 'Gb': 6, 'G': 7, 'G#': 8, 'Ab': 8, 'A': 9, 'A#': 10, 'Bb': 10, 'B': 11,
+};
+
+// Note names in the spelling essentia's KeyExtractor uses
+const NOTE_NAMES = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+// Kick tails live roughly between these frequencies
+const MIN_FUNDAMENTAL = 30;
+const MAX_FUNDAMENTAL = 150;
+
+/**
+ * Frequency of a note name (as returned by essentia's KeyExtractor) in a given octave
+ * @param note - e.g. 'F#', 'Bb'
+ * @param octave - Scientific pitch octave (A4 = 440Hz)
+ * @returns Frequency in Hz, or null for an unknown note name
+ */
+export function noteToFrequency(note: string, octave: number = 1): number | null {
+    const index = NOTE_INDEX[note];
+    if (index === undefined) return null;
+    const midi = 12 * (octave + 1) + index;
+    return 440 * Math.pow(2, (midi - 69) / 12);
+}
+
+/**
+ * Shift a note name by a number of semitones (rounded to the nearest semitone)
+ * @param note - e.g. 'F#', 'Bb'
+ * @param semitones - Positive is up
+ * @returns The new note name, or the input unchanged if it isn't a note
+ */
+export function transposeNote(note: string, semitones: number): string {
+    const index = NOTE_INDEX[note];
+    if (index === undefined) return note;
+    return NOTE_NAMES[(((index + Math.round(semitones)) % 12) + 12) % 12];
+}
+
+/**
+ * Estimate the fundamental of a kick's tail with autocorrelation
+ * @param samples - Mono kick samples
+ * @param sampleRate - Kick sample rate
+ * @param tailStart - Seconds to skip (the click and pitch sweep)
+ * @returns Fundamental in Hz, or null if nothing periodic was found
+ */
+export function estimateFundamental(samples: Float32Array, sampleRate: number, tailStart: number = 0.06): number | null {
+    const start = Math.floor(tailStart * sampleRate);
+    const windowLength = Math.min(samples.length - start, Math.floor(0.15 * sampleRate));
+    const minLag = Math.floor(sampleRate / MAX_FUNDAMENTAL);
+    const maxLag = Math.ceil(sampleRate / MIN_FUNDAMENTAL);
+    if (windowLength <= maxLag) return null;
+
+    let energy = 0;
+    for (let i = 0; i < windowLength; i++) {
+        energy += samples[start + i] * samples[start + i];
+    }
+    if (energy === 0) return null;
+
+    let bestLag = 0;
+    let bestCorrelation = 0;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+        let correlation = 0;
+        for (let i = 0; i + lag < windowLength; i++) {
+            correlation += samples[start + i] * samples[start + i + lag];
+        }
+        if (correlation > bestCorrelation) {
+            bestCorrelation = correlation;
+            bestLag = lag;
+        }
+    }
+
+    // Weak correlation means noise, not a tonal tail
+    if (bestLag === 0 || bestCorrelation / energy < 0.3) return null;
+    return sampleRate / bestLag;
+}
+
+/**
+ * Pitch-shift a kick's tail so its fundamental lands on a note
+ * The transient is kept as-is, the tail is resampled (varispeed) and crossfaded in
+ * @param samples - Mono kick samples
+ * @param sampleRate - Kick sample rate
+ * @param note - Target root note, e.g. 'F#'
+ * @param quality - Interpolation used to re-pitch the tail
+ * @param tailStart - Seconds of transient to leave untouched
+ * @returns The tuned kick, or the original if its pitch couldn't be detected
+ */
+export function tuneKick(
+    samples: Float32Array,
+    sampleRate: number,
+    note: string,
+    quality: ResampleQuality = 'sinc',
+    tailStart: number = 0.06
+): Float32Array {
+    const current = estimateFundamental(samples, sampleRate, tailStart);
+    const rootFrequency = noteToFrequency(note, 0);
+    if (current === null || rootFrequency === null) {
+        console.warn('[TUNING] Could not detect kick pitch or key, leaving the kick untuned');
+        return samples;
+    }
+
+    // Pick the octave of the root closest to the kick, so we never shift more than 6 semitones
+    const octaves = Math.round(Math.log2(current / rootFrequency));
+    const target = rootFrequency * Math.pow(2, octaves);
+    const ratio = target / current;
+    console.log(`[TUNING] Kick tail ${current.toFixed(1)}Hz -> ${target.toFixed(1)}Hz (${note})`);
+    if (Math.abs(ratio - 1) < 0.001) return samples;
+
+    const splitPoint = Math.floor(tailStart * sampleRate);
+    const fadeLength = Math.floor(0.005 * sampleRate);
+    // Playing the tail back ratio times faster raises it by ratio
+    const tail = resample(samples.subarray(splitPoint), sampleRate * ratio, sampleRate, quality);
+
+    const output = new Float32Array(splitPoint + tail.length);
+    output.set(samples.subarray(0, splitPoint));
+    for (let i = 0; i < tail.length; i++) {
+        const original = splitPoint + i < samples.length ? samples[splitPoint + i] : 0;
+        const fade = i < fadeLength ? i / fadeLength : 1;
+        output[splitPoint + i] = original * (1 - fade) + tail[i] * fade;
+    }
+    return output;
+}
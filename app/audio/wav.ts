@@ -0,0 +1,143 @@
+// WAV writer
+// Interleaved PCM (16/24-bit) or IEEE float (32-bit) RIFF/WAVE files, written as a list of parts
+// so hour-long mixes never need one giant buffer, and as RF64 once they outgrow RIFF's 4 GB.
+// The browser export and the server route both write through here
+
+import { quantize } from './quantize';
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+// Largest size a RIFF 32-bit length field can hold
+const RIFF_LIMIT = 0xffffffff;
+// Frames converted per part
+const BLOCK_FRAMES = 65536;
+
+/**
+ * Everything before the sample data: RIFF (or RF64 + ds64) header, 'fmt ', extra chunks, 'data' header
+ * @param channelCount - Number of channels
+ * @param sampleRate - Sample rate
+ * @param bitDepth - 16, 24, or 32 (float)
+ * @param frames - Samples per channel
+ * @param chunks - Extra complete chunks (LIST/INFO, bext...) written between 'fmt ' and 'data'
+ * @returns The header bytes
+ */
+export function wavHeader(
+    channelCount: number,
+    sampleRate: number,
+    bitDepth: 16 | 24 | 32,
+    frames: number,
+    chunks: Uint8Array[] = []
+): Uint8Array {
+    const blockAlign = channelCount * (bitDepth / 8);
+    const dataBytes = frames * blockAlign;
+    const chunkBytes = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    // 'WAVE' + fmt chunk + extra chunks + data chunk (padded to even)
+    let riffBytes = 4 + 24 + chunkBytes + 8 + dataBytes + (dataBytes % 2);
+    const rf64 = riffBytes > RIFF_LIMIT;
+    if (rf64) riffBytes += 36; // ds64 chunk
+
+    const header = new Uint8Array(riffBytes + 8 - dataBytes - (dataBytes % 2));
+    const view = new DataView(header.buffer);
+    const writeTag = (offset: number, tag: string) => {
+        for (let i = 0; i < 4; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+    };
+    const writeUint64 = (offset: number, value: number) => {
+        view.setUint32(offset, value % 0x100000000, true);
+        view.setUint32(offset + 4, Math.floor(value / 0x100000000), true);
+    };
+
+    writeTag(0, rf64 ? 'RF64' : 'RIFF');
+    view.setUint32(4, rf64 ? RIFF_LIMIT : riffBytes, true);
+    writeTag(8, 'WAVE');
+    let position = 12;
+
+    // RF64: the real sizes live in ds64, the 32-bit fields say 0xffffffff
+    if (rf64) {
+        writeTag(position, 'ds64');
+        view.setUint32(position + 4, 28, true);
+        writeUint64(position + 8, riffBytes);
+        writeUint64(position + 16, dataBytes);
+        writeUint64(position + 24, frames);
+        view.setUint32(position + 32, 0, true); // no table entries
+        position += 36;
+    }
+
+    writeTag(position, 'fmt ');
+    view.setUint32(position + 4, 16, true);
+    view.setUint16(position + 8, bitDepth === 32 ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM, true);
+    view.setUint16(position + 10, channelCount, true);
+    view.setUint32(position + 12, sampleRate, true);
+    view.setUint32(position + 16, sampleRate * blockAlign, true);
+    view.setUint16(position + 20, blockAlign, true);
+    view.setUint16(position + 22, bitDepth, true);
+    position += 24;
+
+    for (const chunk of chunks) {
+        header.set(chunk, position);
+        position += chunk.length;
+    }
+    writeTag(position, 'data');
+    view.setUint32(position + 4, rf64 ? RIFF_LIMIT : dataBytes, true);
+    return header;
+}
+
+/**
+ * Interleave one block of samples
+ */
+function interleave(channels: Int32Array[] | Float32Array[], bitDepth: 16 | 24 | 32): Uint8Array {
+    const channelCount = channels.length;
+    const length = channels[0]?.length ?? 0;
+    const bytesPerSample = bitDepth / 8;
+    const block = new Uint8Array(length * channelCount * bytesPerSample);
+    const view = new DataView(block.buffer);
+
+    let position = 0;
+    for (let i = 0; i < length; i++) {
+        for (let channel = 0; channel < channelCount; channel++) {
+            const sample = channels[channel][i];
+            if (bitDepth === 32) {
+                view.setFloat32(position, sample, true);
+            } else if (bitDepth === 24) {
+                view.setUint8(position, sample & 0xff);
+                view.setInt16(position + 1, sample >> 8, true);
+            } else {
+                view.setInt16(position, sample, true);
+            }
+            position += bytesPerSample;
+        }
+    }
+    return block;
+}
+
+/**
+ * Write a WAV file as a list of parts (for a Blob or Buffer.concat), converting one block at a time
+ * @param channels - Float samples, one array per channel
+ * @param sampleRate - Sample rate
+ * @param bitDepth - 16, 24, or 32 (float, written as is)
+ * @param dither - TPDF dither when quantizing to 16 or 24 bits
+ * @param onProgress - Called with 0-1 as blocks are written
+ * @param chunks - Extra complete chunks (LIST/INFO, bext...) written between 'fmt ' and 'data'
+ * @returns Header, sample blocks and the pad byte if the data has an odd length
+ */
+export function encodeWav(
+    channels: Float32Array[],
+    sampleRate: number,
+    bitDepth: 16 | 24 | 32,
+    dither: boolean,
+    onProgress?: (fraction: number) => void,
+    chunks: Uint8Array[] = []
+): Uint8Array[] {
+    const length = channels[0]?.length ?? 0;
+    const parts = [wavHeader(channels.length, sampleRate, bitDepth, length, chunks)];
+
+    let dataBytes = 0;
+    for (let start = 0; start < length; start += BLOCK_FRAMES) {
+        const slice = channels.map(channel => channel.subarray(start, start + BLOCK_FRAMES));
+        const block = interleave(bitDepth === 32 ? slice : quantize(slice, bitDepth, dither), bitDepth);
+        parts.push(block);
+        dataBytes += block.length;
+        if (onProgress && (start / BLOCK_FRAMES) % 64 === 0) onProgress(start / length);
+    }
+    if (dataBytes % 2) parts.push(new Uint8Array(1));
+    return parts;
+}
@@ -0,0 +1,48 @@
+// Waveform overview for drawing
+// Min/max per bin across all channels, so a whole track fits in a few hundred pixels
+
+import { ChannelSource } from './mixer';
+
+/**
+ * Waveform peaks of a track
+ */
+export interface WaveformPeaks {
+    min: Float32Array; // lowest sample per bin, -1..0
+    max: Float32Array; // highest sample per bin, 0..1
+    start: number; // seconds, where the first bin starts
+    duration: number; // seconds covered by all bins
+}
+
+/**
+ * Reduce a track (or a stretch of it) to min/max pairs
+ * @param source - Decoded track
+ * @param sampleRate - Track sample rate
+ * @param bins - Number of bins (typically the canvas width)
+ * @param start - Seconds to start at
+ * @param end - Seconds to stop at (defaults to the end of the track)
+ */
+export function computePeaks(
+    source: ChannelSource,
+    sampleRate: number,
+    bins: number,
+    start: number = 0,
+    end: number = source.length / sampleRate
+): WaveformPeaks {
+    const min = new Float32Array(bins);
+    const max = new Float32Array(bins);
+    const first = Math.max(0, Math.floor(start * sampleRate));
+    const samplesPerBin = (Math.min(source.length, Math.floor(end * sampleRate)) - first) / bins;
+
+    for (let channel = 0; channel < source.numberOfChannels; channel++) {
+        const data = source.getChannelData(channel);
+        for (let bin = 0; bin < bins; bin++) {
+            const binEnd = Math.min(data.length, first + Math.floor((bin + 1) * samplesPerBin));
+            for (let i = first + Math.floor(bin * samplesPerBin); i < binEnd; i++) {
+                if (data[i] < min[bin]) min[bin] = data[i];
+                if (data[i] > max[bin]) max[bin] = data[i];
+            }
+        }
+    }
+
+    return { min, max, start: first / sampleRate, duration: (samplesPerBin * bins) / sampleRate };
+}
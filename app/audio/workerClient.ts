@@ -0,0 +1,120 @@
+"use client";
+
+// Main-thread side of the analysis/render worker
+// One job per worker at a time: an idle worker is reused (so Essentia stays loaded), a second job
+// running at the same time gets its own, and cancelling a job only kills the worker it runs on
+
+import type { JobRequest, WorkerMessage } from './hardstyle.worker';
+import { ProgressReporter } from './progress';
+
+interface PendingJob {
+    resolve: (result: any) => void;
+    reject: (error: Error) => void;
+    onProgress: ProgressReporter;
+    worker: Worker;
+}
+
+// Workers with nothing to do, kept for the next job (at most one is kept)
+const idle: Worker[] = [];
+let nextJobId = 1;
+const pending = new Map<number, PendingJob>();
+
+function abortError(): Error {
+    return new DOMException('Job cancelled', 'AbortError');
+}
+
+function createWorker(): Worker {
+    const worker = new Worker(new URL('./hardstyle.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+        const message = event.data;
+        const job = pending.get(message.id);
+        if (!job) return;
+
+        if (message.type === 'progress') {
+            job.onProgress(message.progress);
+        } else if (message.type === 'result') {
+            pending.delete(message.id);
+            release(worker);
+            job.resolve(message.result);
+        } else {
+            pending.delete(message.id);
+            release(worker);
+            job.reject(new Error(message.error));
+        }
+    };
+    worker.onerror = (event) => {
+        console.error('[WORKER] Crashed:', event.message);
+        terminate(worker, new Error(`Worker crashed: ${event.message}`));
+    };
+    return worker;
+}
+
+/**
+ * Hand a finished worker back, or drop it if another one is already waiting
+ */
+function release(worker: Worker): void {
+    if (idle.length > 0) {
+        worker.terminate();
+    } else {
+        idle.push(worker);
+    }
+}
+
+/**
+ * Kill a worker (the only way to stop a synchronous loop) and fail the job running on it
+ */
+function terminate(worker: Worker, reason: Error): void {
+    worker.terminate();
+    const index = idle.indexOf(worker);
+    if (index !== -1) idle.splice(index, 1);
+    pending.forEach((job, id) => {
+        if (job.worker !== worker) return;
+        pending.delete(id);
+        job.reject(reason);
+    });
+}
+
+/**
+ * Run a job in a worker
+ * @param request - What to do. Its channel buffers are transferred, so pass copies
+ * @param onProgress - Progress callback
+ * @param signal - Aborting terminates this job's worker and rejects with an AbortError
+ * @returns The job's result
+ */
+export function runJob<T>(request: JobRequest, onProgress: ProgressReporter, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) return Promise.reject(abortError());
+
+    return new Promise<T>((resolve, reject) => {
+        const id = nextJobId++;
+        const worker = idle.pop() ?? createWorker();
+        const onAbort = () => terminate(worker, abortError());
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        pending.set(id, {
+            resolve: result => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve(result);
+            },
+            reject: error => {
+                signal?.removeEventListener('abort', onAbort);
+                reject(error);
+            },
+            onProgress,
+            worker,
+        });
+
+        const transfer: Transferable[] = request.channels.map(channel => channel.buffer);
+        if (request.type === 'render') {
+            transfer.push(request.tock.data.buffer);
+            if (request.kick) transfer.push(request.kick.data.buffer);
+        }
+        worker.postMessage({ id, request }, transfer);
+    });
+}
+
+/**
+ * Check whether an error came from cancelling a job
+ */
+export function isAbortError(error: unknown): boolean {
+    return (error as any)?.name === 'AbortError';
+}
@@ -0,0 +1,479 @@
+"use client";
+
+import { CUSTOM_KICK, KICK_LIBRARY, SYNTH_KICK } from "../audio/kicks";
+import { DEFAULT_MASTER } from "../audio/master";
+import { HardstyleOptions } from "../audio/options";
+import { PATTERNS } from "../audio/pattern";
+
+interface AdvancedPanelProps {
+  options: HardstyleOptions;
+  onChange: (options: HardstyleOptions) => void;
+  disabled?: boolean;
+}
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+}
+
+function Slider({ label, value, min, max, step, format, onChange, disabled }: SliderProps) {
+  return (
+    <label className="advanced-row">
+      <span className="detail-label">{label}</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+      />
+      <span className="detail-value">{format(value)}</span>
+    </label>
+  );
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+const millis = (value: number) => `${(value * 1000).toFixed(0)}ms`;
+const hertz = (value: number) => `${value.toFixed(0)} Hz`;
+
+// Knobs for processAudioInBrowser, so a track can be re-rendered without re-uploading
+export default function AdvancedPanel({ options, onChange, disabled }: AdvancedPanelProps) {
+  const set = <K extends keyof HardstyleOptions>(key: K, value: HardstyleOptions[K]) =>
+    onChange({ ...options, [key]: value });
+  const setSidechain = <K extends keyof HardstyleOptions["sidechain"]>(
+    key: K,
+    value: HardstyleOptions["sidechain"][K],
+  ) => onChange({ ...options, sidechain: { ...options.sidechain, [key]: value } });
+  const setKickSynth = <K extends keyof HardstyleOptions["kickSynth"]>(
+    key: K,
+    value: HardstyleOptions["kickSynth"][K],
+  ) => onChange({ ...options, kickSynth: { ...options.kickSynth, [key]: value } });
+  const setLayers = <K extends keyof HardstyleOptions["layers"]>(
+    key: K,
+    value: HardstyleOptions["layers"][K],
+  ) => onChange({ ...options, layers: { ...options.layers, [key]: value } });
+  const setMaster = <K extends keyof HardstyleOptions["master"]>(
+    key: K,
+    value: HardstyleOptions["master"][K],
+  ) => onChange({ ...options, master: { ...options.master, [key]: value } });
+  const decibels = (value: number) => `${value.toFixed(1)} dB`;
+
+  return (
+    <details className="advanced-panel">
+      <summary>🎛️ ADVANCED</summary>
+
+      <label className="advanced-row">
+        <span className="detail-label">🥁 Pattern</span>
+        <select
+          value={options.pattern}
+          disabled={disabled}
+          onChange={(e) => set("pattern", e.target.value)}
+        >
+          {Object.entries(PATTERNS).map(([key, pattern]) => (
+            <option key={key} value={key}>{pattern.name}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="advanced-row">
+        <span className="detail-label">⏩ Tempo</span>
+        <select
+          value={options.conform}
+          disabled={disabled}
+          onChange={(e) => set("conform", e.target.value as HardstyleOptions["conform"])}
+        >
+          <option value="off">Keep original tempo</option>
+          <option value="stretch">Stretch (keep pitch)</option>
+          <option value="nightcore">Nightcore (pitch up)</option>
+        </select>
+      </label>
+
+      {options.conform !== "off" && (
+        <Slider
+          label="🎯 Target BPM"
+          value={options.targetBpm}
+          min={100}
+          max={220}
+          step={1}
+          format={(value) => `${value.toFixed(0)}`}
+          disabled={disabled}
+          onChange={(value) => set("targetBpm", value)}
+        />
+      )}
+
+      <label className="advanced-row">
+        <span className="detail-label">🎯 Placement</span>
+        <select
+          value={options.placement}
+          disabled={disabled}
+          onChange={(e) => set("placement", e.target.value as HardstyleOptions["placement"])}
+        >
+          <option value="everywhere">Every beat</option>
+          <option value="sections">Only where kicks are missing</option>
+        </select>
+      </label>
+
+      {options.placement === "sections" && (
+        <Slider
+          label="🌫️ Crossfade"
+          value={options.crossfade}
+          min={0}
+          max={8}
+          step={0.25}
+          format={(value) => `${value.toFixed(2)}s`}
+          disabled={disabled}
+          onChange={(value) => set("crossfade", value)}
+        />
+      )}
+
+      <label className="advanced-row">
+        <span className="detail-label">💥 Kick</span>
+        <select
+          value={options.kickSample}
+          disabled={disabled}
+          onChange={(e) => set("kickSample", e.target.value)}
+        >
+          {KICK_LIBRARY.map((kick) => (
+            <option key={kick.id} value={kick.id}>{kick.label}</option>
+          ))}
+          <option value={SYNTH_KICK}>Synth</option>
+          {options.customKick && (
+            <option value={CUSTOM_KICK}>
+              Custom: {(options.customKick as File).name ?? "uploaded"}
+            </option>
+          )}
+        </select>
+      </label>
+
+      {options.kickSample === SYNTH_KICK && (
+        <>
+          <Slider
+            label="🚀 Start pitch"
+            value={options.kickSynth.startPitch}
+            min={100}
+            max={2000}
+            step={10}
+            format={hertz}
+            disabled={disabled}
+            onChange={(value) => setKickSynth("startPitch", value)}
+          />
+          <Slider
+            label="📉 Pitch drop"
+            value={options.kickSynth.pitchDecay}
+            min={0.005}
+            max={0.1}
+            step={0.005}
+            format={millis}
+            disabled={disabled}
+            onChange={(value) => setKickSynth("pitchDecay", value)}
+          />
+          <Slider
+            label="🎵 Tail pitch"
+            value={options.kickSynth.tailPitch}
+            min={30}
+            max={120}
+            step={1}
+            format={hertz}
+            disabled={disabled}
+            onChange={(value) => setKickSynth("tailPitch", value)}
+          />
+          <Slider
+            label="📏 Tail length"
+            value={options.kickSynth.tailLength}
+            min={0.1}
+            max={1}
+            step={0.01}
+            format={millis}
+            disabled={disabled}
+            onChange={(value) => setKickSynth("tailLength", value)}
+          />
+          <Slider
+            label="🔥 Distortion"
+            value={options.kickSynth.distortion}
+            min={0}
+            max={36}
+            step={1}
+            format={(value) => `${value} dB`}
+            disabled={disabled}
+            onChange={(value) => setKickSynth("distortion", value)}
+          />
+          <Slider
+            label="⚡ Click"
+            value={options.kickSynth.click}
+            min={0}
+            max={1}
+            step={0.05}
+            format={percent}
+            disabled={disabled}
+            onChange={(value) => setKickSynth("click", value)}
+          />
+          <label className="advanced-row">
+            <span className="detail-label">🔁 Style</span>
+            <select
+              value={options.kickSynth.style}
+              disabled={disabled}
+              onChange={(e) => setKickSynth("style", e.target.value as HardstyleOptions["kickSynth"]["style"])}
+            >
+              <option value="classic">Classic tail</option>
+              <option value="reverse">Reverse bass</option>
+            </select>
+          </label>
+        </>
+      )}
+
+      <label className="advanced-row">
+        <span className="detail-label">🎹 Tune to key</span>
+        <input
+          type="checkbox"
+          checked={options.tuneToKey}
+          disabled={disabled}
+          onChange={(e) => set("tuneToKey", e.target.checked)}
+        />
+      </label>
+
+      <label className="advanced-row">
+        <span className="detail-label">📤 Upload kick</span>
+        <input
+          type="file"
+          accept=".wav,.mp3,.flac,audio/wav,audio/mpeg,audio/flac"
+          disabled={disabled}
+          className="advanced-file"
+          onChange={(e) => {
+            const kickFile = e.target.files?.[0];
+            if (kickFile) {
+              onChange({ ...options, kickSample: CUSTOM_KICK, customKick: kickFile });
+            }
+          }}
+        />
+      </label>
+
+      <Slider
+        label="🔊 Kick gain"
+        value={options.kickGain}
+        min={0}
+        max={1.5}
+        step={0.05}
+        format={percent}
+        disabled={disabled}
+        onChange={(value) => set("kickGain", value)}
+      />
+      <Slider
+        label="🎵 Track gain"
+        value={options.originalGain}
+        min={0}
+        max={1.5}
+        step={0.05}
+        format={percent}
+        disabled={disabled}
+        onChange={(value) => set("originalGain", value)}
+      />
+      <Slider
+        label="↔️ Kick pan"
+        value={options.kickPan}
+        min={-1}
+        max={1}
+        step={0.05}
+        format={(value) => (value === 0 ? "C" : value < 0 ? `L${percent(-value)}` : `R${percent(value)}`)}
+        disabled={disabled}
+        onChange={(value) => set("kickPan", value)}
+      />
+      <Slider
+        label="🦆 Duck depth"
+        value={options.sidechain.depth}
+        min={0}
+        max={1}
+        step={0.05}
+        format={percent}
+        disabled={disabled}
+        onChange={(value) => setSidechain("depth", value)}
+      />
+      <Slider
+        label="⏱️ Attack"
+        value={options.sidechain.attack}
+        min={0.001}
+        max={0.05}
+        step={0.001}
+        format={millis}
+        disabled={disabled}
+        onChange={(value) => setSidechain("attack", value)}
+      />
+      <Slider
+        label="⏸️ Hold"
+        value={options.sidechain.hold}
+        min={0}
+        max={0.3}
+        step={0.005}
+        format={millis}
+        disabled={disabled}
+        onChange={(value) => setSidechain("hold", value)}
+      />
+      <Slider
+        label="🌊 Release"
+        value={options.sidechain.release}
+        min={0.01}
+        max={0.5}
+        step={0.01}
+        format={millis}
+        disabled={disabled}
+        onChange={(value) => setSidechain("release", value)}
+      />
+
+      <label className="advanced-row">
+        <span className="detail-label">🎚️ Resampling</span>
+        <select
+          value={options.resampleQuality}
+          disabled={disabled}
+          onChange={(e) => set("resampleQuality", e.target.value as HardstyleOptions["resampleQuality"])}
+        >
+          <option value="sinc">Windowed sinc (clean)</option>
+          <option value="linear">Linear (fast)</option>
+        </select>
+      </label>
+
+      <label className="advanced-row">
+        <span className="detail-label">🔑 Duck keyed from</span>
+        <select
+          value={options.sidechain.keyedFrom}
+          disabled={disabled}
+          onChange={(e) => setSidechain("keyedFrom", e.target.value as HardstyleOptions["sidechain"]["keyedFrom"])}
+        >
+          <option value="placement">Kick placement</option>
+          <option value="sample">Kick envelope</option>
+        </select>
+      </label>
+
+      <label className="advanced-row">
+        <span className="detail-label">🔈 Duck band</span>
+        <select
+          value={options.sidechain.band}
+          disabled={disabled}
+          onChange={(e) => setSidechain("band", e.target.value as HardstyleOptions["sidechain"]["band"])}
+        >
+          <option value="full">Full track</option>
+          <option value="low">Low end only</option>
+        </select>
+      </label>
+      {options.sidechain.band === "low" && (
+        <Slider
+          label="✂️ Crossover"
+          value={options.sidechain.crossover}
+          min={60}
+          max={400}
+          step={5}
+          format={(value) => `${value} Hz`}
+          disabled={disabled}
+          onChange={(value) => setSidechain("crossover", value)}
+        />
+      )}
+
+      <label className="advanced-row">
+        <span className="detail-label">🔙 Reverse bass</span>
+        <input
+          type="checkbox"
+          checked={options.layers.reverseBass}
+          disabled={disabled}
+          onChange={(e) => setLayers("reverseBass", e.target.checked)}
+        />
+      </label>
+      {options.layers.reverseBass && (
+        <Slider
+          label="🔊 Reverse bass gain"
+          value={options.layers.reverseBassGain}
+          min={0}
+          max={2}
+          step={0.05}
+          format={percent}
+          disabled={disabled}
+          onChange={(value) => setLayers("reverseBassGain", value)}
+        />
+      )}
+
+      <label className="advanced-row">
+        <span className="detail-label">😱 Screech</span>
+        <input
+          type="checkbox"
+          checked={options.layers.screech}
+          disabled={disabled}
+          onChange={(e) => setLayers("screech", e.target.checked)}
+        />
+      </label>
+      {options.layers.screech && (
+        <Slider
+          label="🔊 Screech gain"
+          value={options.layers.screechGain}
+          min={0}
+          max={2}
+          step={0.05}
+          format={percent}
+          disabled={disabled}
+          onChange={(value) => setLayers("screechGain", value)}
+        />
+      )}
+
+      <label className="advanced-row">
+        <span className="detail-label">🧱 Master bus</span>
+        <input
+          type="checkbox"
+          checked={options.master.enabled}
+          disabled={disabled}
+          onChange={(e) => setMaster("enabled", e.target.checked)}
+        />
+      </label>
+
+      {options.master.enabled && (
+        <>
+          <label className="advanced-row">
+            <span className="detail-label">📏 Normalize loudness</span>
+            <input
+              type="checkbox"
+              checked={options.master.targetLufs !== null}
+              disabled={disabled}
+              onChange={(e) =>
+                setMaster("targetLufs", e.target.checked ? DEFAULT_MASTER.targetLufs : null)}
+            />
+          </label>
+          {options.master.targetLufs !== null && (
+            <Slider
+              label="🔊 Target"
+              value={options.master.targetLufs}
+              min={-16}
+              max={-4}
+              step={0.5}
+              format={(value) => `${value.toFixed(1)} LUFS`}
+              disabled={disabled}
+              onChange={(value) => setMaster("targetLufs", value)}
+            />
+          )}
+          <Slider
+            label="📈 Ceiling"
+            value={options.master.ceiling}
+            min={-3}
+            max={0}
+            step={0.1}
+            format={(value) => `${value.toFixed(1)} dBTP`}
+            disabled={disabled}
+            onChange={(value) => setMaster("ceiling", value)}
+          />
+          <Slider
+            label="🔥 Soft clip"
+            value={options.master.clipDrive}
+            min={0}
+            max={12}
+            step={0.5}
+            format={(value) => (value === 0 ? "Off" : decibels(value))}
+            disabled={disabled}
+            onChange={(value) => setMaster("clipDrive", value)}
+          />
+        </>
+      )}
+    </details>
+  );
+}
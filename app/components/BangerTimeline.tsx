@@ -0,0 +1,104 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { Section, SectionType, TimelineWindow } from "../audio/timeline";
+import { WaveformPeaks } from "../audio/waveform";
+
+interface BangerTimelineProps {
+  peaks: WaveformPeaks;
+  timeline: TimelineWindow[];
+  sections: Section[];
+  threshold: number;
+}
+
+export const TIMELINE_WIDTH = 800;
+const HEIGHT = 160;
+
+const SECTION_COLORS: Record<SectionType, string> = {
+  intro: "rgba(0, 128, 255, 0.15)",
+  build: "rgba(255, 200, 0, 0.15)",
+  drop: "rgba(255, 0, 255, 0.2)",
+  breakdown: "rgba(0, 255, 255, 0.1)",
+};
+
+// Green where the window already bangs, yellow where it's close, red where it needs kicks
+function scoreColor(score: number, threshold: number): string {
+  if (score >= threshold) return "#00ff00";
+  if (score >= threshold - 20) return "#ffcc00";
+  return "#ff0000";
+}
+
+// Waveform with the section layout behind it and the per-window banger curve on top
+export default function BangerTimeline({
+  peaks,
+  timeline,
+  sections,
+  threshold,
+}: BangerTimelineProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+
+    const width = TIMELINE_WIDTH;
+    const x = (time: number) => (time / peaks.duration) * width;
+    const y = (score: number) => HEIGHT - (score / 100) * HEIGHT;
+    ctx.clearRect(0, 0, width, HEIGHT);
+
+    // Sections
+    ctx.font = "bold 10px monospace";
+    sections.forEach((section) => {
+      ctx.fillStyle = SECTION_COLORS[section.type];
+      ctx.fillRect(x(section.start), 0, x(section.end) - x(section.start), HEIGHT);
+      ctx.fillStyle = "rgba(255, 255, 255, 0.6)";
+      ctx.fillText(section.type.toUpperCase(), x(section.start) + 4, 12);
+    });
+
+    // Waveform
+    ctx.fillStyle = "rgba(255, 255, 255, 0.35)";
+    const mid = HEIGHT / 2;
+    for (let bin = 0; bin < peaks.max.length; bin++) {
+      const top = mid - peaks.max[bin] * mid;
+      const bottom = mid - peaks.min[bin] * mid;
+      ctx.fillRect((bin / peaks.max.length) * width, top, Math.max(1, width / peaks.max.length), Math.max(1, bottom - top));
+    }
+
+    // Threshold line
+    ctx.strokeStyle = "rgba(255, 255, 255, 0.5)";
+    ctx.setLineDash([4, 4]);
+    ctx.beginPath();
+    ctx.moveTo(0, y(threshold));
+    ctx.lineTo(width, y(threshold));
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    // Banger curve, one step per window
+    ctx.lineWidth = 3;
+    timeline.forEach((window) => {
+      const color = scoreColor(window.score, threshold);
+      ctx.fillStyle = color;
+      ctx.globalAlpha = 0.2;
+      ctx.fillRect(x(window.start), y(window.score), x(window.end) - x(window.start), HEIGHT - y(window.score));
+      ctx.globalAlpha = 1;
+      ctx.strokeStyle = color;
+      ctx.beginPath();
+      ctx.moveTo(x(window.start), y(window.score));
+      ctx.lineTo(x(window.end), y(window.score));
+      ctx.stroke();
+    });
+    ctx.lineWidth = 1;
+  }, [peaks, timeline, sections, threshold]);
+
+  return (
+    <div className="banger-timeline">
+      <h3>WHERE DOES IT BANG?</h3>
+      <canvas ref={canvasRef} width={TIMELINE_WIDTH} height={HEIGHT} />
+      <div className="timeline-legend">
+        <span style={{ color: "#00ff00" }}>■ BANGS</span>
+        <span style={{ color: "#ffcc00" }}>■ CLOSE</span>
+        <span style={{ color: "#ff0000" }}>■ NEEDS KICKS</span>
+      </div>
+    </div>
+  );
+}
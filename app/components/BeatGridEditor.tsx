@@ -0,0 +1,153 @@
+"use client";
+
+import { MouseEvent, useEffect, useRef, useState } from "react";
+import type { RhythmAnalysis } from "../audio/analysis";
+import {
+  addBeat,
+  BEATS_PER_BAR,
+  deleteBeat,
+  doubleTempo,
+  halveTempo,
+  nudgeGrid,
+  shiftDownbeat,
+} from "../audio/beatgrid";
+import { WaveformPeaks } from "../audio/waveform";
+import { loadWaveform } from "../audioProcessor";
+
+interface BeatGridEditorProps {
+  file: File;
+  rhythm: RhythmAnalysis;
+  duration: number; // seconds
+  onChange: (rhythm: RhythmAnalysis) => void;
+  onReset: () => void;
+  disabled?: boolean;
+}
+
+const WIDTH = 800;
+const HEIGHT = 120;
+// Clicking this close (px) to a beat deletes it, anywhere else adds one
+const HIT_PIXELS = 6;
+
+// Zoomed waveform with the beat grid on top. Click to add/delete beats, buttons for the rest
+export default function BeatGridEditor({
+  file,
+  rhythm,
+  duration,
+  onChange,
+  onReset,
+  disabled,
+}: BeatGridEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [bars, setBars] = useState(8);
+  const [viewStart, setViewStart] = useState(0);
+  const [peaks, setPeaks] = useState<WaveformPeaks | null>(null);
+
+  const viewLength = Math.min(duration, (bars * BEATS_PER_BAR * 60) / rhythm.bpm);
+  const maxStart = Math.max(0, duration - viewLength);
+  const start = Math.min(viewStart, maxStart);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadWaveform(file, WIDTH, start, start + viewLength).then((result) => {
+      if (!cancelled) setPeaks(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [file, start, viewLength]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx || !peaks) return;
+
+    const x = (time: number) => ((time - start) / viewLength) * WIDTH;
+    const mid = HEIGHT / 2;
+    ctx.clearRect(0, 0, WIDTH, HEIGHT);
+
+    ctx.fillStyle = "rgba(255, 255, 255, 0.35)";
+    for (let bin = 0; bin < peaks.max.length; bin++) {
+      const top = mid - peaks.max[bin] * mid;
+      const bottom = mid - peaks.min[bin] * mid;
+      ctx.fillRect(bin, top, 1, Math.max(1, bottom - top));
+    }
+
+    const downbeat = rhythm.downbeat ?? 0;
+    rhythm.beats.forEach((time, index) => {
+      if (time < start || time > start + viewLength) return;
+      const isDownbeat = (((index - downbeat) % BEATS_PER_BAR) + BEATS_PER_BAR) % BEATS_PER_BAR === 0;
+      ctx.fillStyle = isDownbeat ? "#ff00ff" : "#00ff00";
+      ctx.fillRect(Math.round(x(time)) - (isDownbeat ? 1 : 0), 0, isDownbeat ? 3 : 1, HEIGHT);
+    });
+  }, [peaks, rhythm, start, viewLength]);
+
+  const handleClick = (e: MouseEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const pixelsPerSecond = rect.width / viewLength;
+    const time = start + (e.clientX - rect.left) / pixelsPerSecond;
+
+    let nearest = -1;
+    rhythm.beats.forEach((beat, index) => {
+      if (nearest === -1 || Math.abs(beat - time) < Math.abs(rhythm.beats[nearest] - time)) {
+        nearest = index;
+      }
+    });
+
+    if (nearest !== -1 && Math.abs(rhythm.beats[nearest] - time) * pixelsPerSecond <= HIT_PIXELS) {
+      onChange(deleteBeat(rhythm, nearest));
+    } else {
+      onChange(addBeat(rhythm, time));
+    }
+  };
+
+  const nudge = (seconds: number) => onChange(nudgeGrid(rhythm, seconds));
+
+  return (
+    <details className="advanced-panel beat-grid-editor">
+      <summary>🥁 BEAT GRID ({rhythm.bpm.toFixed(1)} BPM)</summary>
+
+      <canvas
+        ref={canvasRef}
+        width={WIDTH}
+        height={HEIGHT}
+        onClick={handleClick}
+      />
+
+      <label className="advanced-row">
+        <span className="detail-label">📍 Position</span>
+        <input
+          type="range"
+          min={0}
+          max={maxStart}
+          step={0.01}
+          value={start}
+          onChange={(e) => setViewStart(parseFloat(e.target.value))}
+        />
+        <span className="detail-value">{start.toFixed(1)}s</span>
+      </label>
+
+      <label className="advanced-row">
+        <span className="detail-label">🔍 Zoom</span>
+        <select value={bars} onChange={(e) => setBars(parseInt(e.target.value))}>
+          {[2, 4, 8, 16, 32].map((count) => (
+            <option key={count} value={count}>{count} bars</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="grid-actions">
+        <button type="button" disabled={disabled} onClick={() => nudge(-0.01)}>◀◀ 10ms</button>
+        <button type="button" disabled={disabled} onClick={() => nudge(-0.001)}>◀ 1ms</button>
+        <button type="button" disabled={disabled} onClick={() => nudge(0.001)}>1ms ▶</button>
+        <button type="button" disabled={disabled} onClick={() => nudge(0.01)}>10ms ▶▶</button>
+        <button type="button" disabled={disabled} onClick={() => onChange(doubleTempo(rhythm))}>×2</button>
+        <button type="button" disabled={disabled} onClick={() => onChange(halveTempo(rhythm))}>÷2</button>
+        <button type="button" disabled={disabled} onClick={() => onChange(shiftDownbeat(rhythm))}>DOWNBEAT +1</button>
+        <button type="button" disabled={disabled} onClick={onReset}>RESET</button>
+      </div>
+      <div className="grid-hint">
+        CLICK A BEAT TO DELETE IT, CLICK ANYWHERE ELSE TO ADD ONE
+      </div>
+    </details>
+  );
+}
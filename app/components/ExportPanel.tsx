@@ -0,0 +1,105 @@
+"use client";
+
+import {
+  BitDepth,
+  EXPORT_FORMATS,
+  ExportFormat,
+  ExportSettings,
+  normalizeExport,
+  OPUS_BITRATES,
+} from "../audio/export";
+
+interface ExportPanelProps {
+  settings: ExportSettings;
+  onChange: (settings: ExportSettings) => void;
+  onExport: () => void;
+  exporting?: boolean;
+  disabled?: boolean;
+}
+
+const BIT_DEPTH_LABELS: Record<BitDepth, string> = {
+  16: "16-bit",
+  24: "24-bit",
+  32: "32-bit float",
+};
+
+// Format picker and download button for the processed track
+export default function ExportPanel({
+  settings,
+  onChange,
+  onExport,
+  exporting,
+  disabled,
+}: ExportPanelProps) {
+  const format = EXPORT_FORMATS[settings.format];
+  const set = <K extends keyof ExportSettings>(key: K, value: ExportSettings[K]) =>
+    onChange(normalizeExport({ ...settings, [key]: value }));
+
+  return (
+    <div className="export-panel">
+      <label className="advanced-row">
+        <span className="detail-label">💾 Format</span>
+        <select
+          value={settings.format}
+          disabled={disabled || exporting}
+          onChange={(e) => set("format", e.target.value as ExportFormat)}
+        >
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((id) => (
+            <option key={id} value={id}>{EXPORT_FORMATS[id].label}</option>
+          ))}
+        </select>
+      </label>
+
+      {format.bitDepths.length > 0 ? (
+        <>
+          <label className="advanced-row">
+            <span className="detail-label">🎚️ Bit depth</span>
+            <select
+              value={settings.bitDepth}
+              disabled={disabled || exporting}
+              onChange={(e) => set("bitDepth", parseInt(e.target.value) as BitDepth)}
+            >
+              {format.bitDepths.map((depth) => (
+                <option key={depth} value={depth}>{BIT_DEPTH_LABELS[depth]}</option>
+              ))}
+            </select>
+          </label>
+          {settings.bitDepth !== 32 && (
+            <label className="advanced-row">
+              <span className="detail-label">🌫️ Dither</span>
+              <input
+                type="checkbox"
+                checked={settings.dither}
+                disabled={disabled || exporting}
+                onChange={(e) => set("dither", e.target.checked)}
+              />
+            </label>
+          )}
+        </>
+      ) : (
+        <label className="advanced-row">
+          <span className="detail-label">📶 Bitrate</span>
+          <select
+            value={settings.bitrate}
+            disabled={disabled || exporting}
+            onChange={(e) => set("bitrate", parseInt(e.target.value))}
+          >
+            {OPUS_BITRATES.map((bitrate) => (
+              <option key={bitrate} value={bitrate}>{bitrate} kbps</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      <button
+        type="button"
+        onClick={onExport}
+        disabled={disabled || exporting}
+        className="submit-button"
+        style={{ width: "100%" }}
+      >
+        {exporting ? "💿 PRESSING..." : `💾 DOWNLOAD ${format.extension.toUpperCase()}`}
+      </button>
+    </div>
+  );
+}
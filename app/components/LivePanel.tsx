@@ -0,0 +1,84 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { LivePreview } from "../audio/live";
+import { formatTime } from "./PreviewPlayer";
+
+interface LivePanelProps {
+  live: LivePreview;
+  ready: boolean; // track and samples decoded
+  stretched: boolean; // a time-stretch conform, which the live preview skips
+  onPrint: () => void;
+  disabled?: boolean;
+}
+
+// Real-time preview while the knobs move, and printing it without a full render
+export default function LivePanel({ live, ready, stretched, onPrint, disabled }: LivePanelProps) {
+  const [playing, setPlaying] = useState(() => live.isPlaying());
+  const [position, setPosition] = useState(() => live.getPosition());
+
+  useEffect(() => {
+    setPlaying(live.isPlaying());
+    return live.subscribe((next) => {
+      setPlaying(next);
+      setPosition(live.getPosition());
+    });
+  }, [live]);
+
+  // Follow the playhead once per frame while playing
+  useEffect(() => {
+    if (!playing) return;
+    let frame = requestAnimationFrame(function follow() {
+      setPosition(live.getPosition());
+      frame = requestAnimationFrame(follow);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [playing, live]);
+
+  const duration = live.getDuration();
+  const seek = (seconds: number) => {
+    live.seek(seconds);
+    setPosition(live.getPosition());
+  };
+
+  return (
+    <div className="live-panel">
+      <div className="live-buttons">
+        <button
+          type="button"
+          onClick={() => live.toggle()}
+          className="submit-button"
+          disabled={!ready}
+        >
+          {!ready ? "⏳ LOADING LIVE" : playing ? "⏸️ HOLD IT" : "🎧 HEAR IT LIVE"}
+        </button>
+        <button
+          type="button"
+          onClick={onPrint}
+          className="submit-button cancel-button"
+          disabled={!ready || disabled}
+        >
+          🖨️ PRINT IT
+        </button>
+      </div>
+
+      <label className="advanced-row">
+        <span className="detail-label">⏱️ {formatTime(position)}</span>
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          step={0.01}
+          value={Math.min(position, duration)}
+          disabled={!ready}
+          onChange={(e) => seek(parseFloat(e.target.value))}
+        />
+        <span className="detail-value">{formatTime(duration)}</span>
+      </label>
+
+      {stretched && (
+        <p className="live-note">Time-stretch only happens in the full render, live plays at the original tempo</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { PreviewSource, Transport, TransportState } from "../audio/transport";
+
+interface PreviewPlayerProps {
+  transport: Transport;
+}
+
+const SOURCE_LABELS: Record<PreviewSource, string> = {
+  original: "🅰️ ORIGINAL",
+  processed: "🅱️ HARDSTYLE",
+};
+
+// m:ss.s
+export function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds - minutes * 60).toFixed(1).padStart(4, "0")}`;
+}
+
+// Transport for the preview: play/pause, seek, loop in/out and the A/B switch
+export default function PreviewPlayer({ transport }: PreviewPlayerProps) {
+  const [state, setState] = useState<TransportState>(() => transport.getState());
+  const [position, setPosition] = useState(() => transport.getPosition());
+
+  useEffect(() => {
+    setState(transport.getState());
+    setPosition(transport.getPosition());
+    return transport.subscribe((next) => {
+      setState(next);
+      setPosition(transport.getPosition());
+    });
+  }, [transport]);
+
+  // The playhead moves on its own: follow it once per frame while playing
+  useEffect(() => {
+    if (!state.playing) return;
+    let frame = requestAnimationFrame(function follow() {
+      setPosition(transport.getPosition());
+      frame = requestAnimationFrame(follow);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [state.playing, transport]);
+
+  const { loop, duration } = state;
+  const setLoopStart = () =>
+    transport.setLoop({ start: position, end: loop && loop.end > position ? loop.end : duration });
+  const setLoopEnd = () =>
+    transport.setLoop({ start: loop && loop.start < position ? loop.start : 0, end: position });
+
+  return (
+    <div className="preview-player">
+      <div className="preview-sources">
+        {(Object.keys(SOURCE_LABELS) as PreviewSource[]).map((source) => (
+          <button
+            key={source}
+            type="button"
+            className={`submit-button ${state.source === source ? "" : "cancel-button"}`}
+            onClick={() => transport.setSource(source)}
+          >
+            {SOURCE_LABELS[source]}
+          </button>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        onClick={() => transport.toggle()}
+        className="submit-button"
+        style={{ width: "100%" }}
+      >
+        {state.playing ? "⏸️ HOLD IT" : "🚀 BLAST IT"}
+      </button>
+
+      <label className="advanced-row">
+        <span className="detail-label">⏱️ {formatTime(position)}</span>
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          step={0.01}
+          value={Math.min(position, duration)}
+          onChange={(e) => transport.seek(parseFloat(e.target.value))}
+        />
+        <span className="detail-value">{formatTime(duration)}</span>
+      </label>
+
+      <div className="advanced-row">
+        <span className="detail-label">
+          🔁 {loop ? `${formatTime(loop.start)} – ${formatTime(loop.end)}` : "No loop"}
+        </span>
+        <span className="preview-loop">
+          <button type="button" className="submit-button cancel-button" onClick={setLoopStart}>
+            ⟦ IN
+          </button>
+          <button type="button" className="submit-button cancel-button" onClick={setLoopEnd}>
+            OUT ⟧
+          </button>
+          {loop && (
+            <button type="button" className="submit-button cancel-button" onClick={() => transport.setLoop(null)}>
+              ✖
+            </button>
+          )}
+        </span>
+      </div>
+    </div>
+  );
+}
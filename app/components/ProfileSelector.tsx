@@ -0,0 +1,164 @@
+"use client";
+
+import type { ScoreComponentId } from "../audio/analysis";
+import {
+  deleteCustomProfile,
+  PROFILES,
+  saveCustomProfile,
+  ScoringProfile,
+} from "../audio/profiles";
+
+interface ProfileSelectorProps {
+  profile: ScoringProfile;
+  customProfiles: ScoringProfile[];
+  onChange: (profile: ScoringProfile) => void;
+  onCustomProfilesChange: (profiles: ScoringProfile[]) => void;
+  disabled?: boolean;
+}
+
+const WEIGHT_LABELS: Record<ScoreComponentId, string> = {
+  bpm: "🎵 BPM",
+  energy: "⚡ Energy",
+  loudness: "🔊 Loudness",
+  spectral: "🌈 Spectral",
+  brightness: "✨ Brightness",
+  percussion: "🥁 Percussion",
+};
+
+// Genre picker for the banger score, with an editor for custom profiles.
+// Edits apply straight away; SAVE keeps them in this browser
+export default function ProfileSelector({
+  profile,
+  customProfiles,
+  onChange,
+  onCustomProfilesChange,
+  disabled,
+}: ProfileSelectorProps) {
+  const allProfiles = [...Object.values(PROFILES), ...customProfiles];
+
+  const set = <K extends keyof ScoringProfile>(key: K, value: ScoringProfile[K]) =>
+    onChange({ ...profile, [key]: value });
+
+  const handleSave = () => {
+    // Built-in profiles are never overwritten: saving one makes a copy
+    const saved = profile.custom
+      ? profile
+      : { ...profile, id: `custom-${Date.now()}`, name: `${profile.name} (custom)`, custom: true };
+    onCustomProfilesChange(saveCustomProfile(saved));
+    onChange(saved);
+  };
+
+  const handleDelete = () => {
+    onCustomProfilesChange(deleteCustomProfile(profile.id));
+    onChange(PROFILES.hardstyle);
+  };
+
+  return (
+    <div className="profile-selector">
+      <label className="advanced-row">
+        <span className="detail-label">🎧 Score as</span>
+        <select
+          value={profile.id}
+          disabled={disabled}
+          onChange={(e) => {
+            const selected = allProfiles.find((p) => p.id === e.target.value);
+            if (selected) onChange(selected);
+          }}
+        >
+          {allProfiles.map((p) => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+      </label>
+
+      <details className="advanced-panel">
+        <summary>✏️ EDIT PROFILE</summary>
+
+        <label className="advanced-row">
+          <span className="detail-label">🏷️ Name</span>
+          <input
+            type="text"
+            value={profile.name}
+            disabled={disabled}
+            onChange={(e) => set("name", e.target.value)}
+          />
+        </label>
+
+        <label className="advanced-row">
+          <span className="detail-label">🎵 BPM range</span>
+          <span className="profile-range">
+            <input
+              type="number"
+              min={40}
+              max={300}
+              value={profile.bpmRange[0]}
+              disabled={disabled}
+              onChange={(e) => set("bpmRange", [parseFloat(e.target.value) || 0, profile.bpmRange[1]])}
+            />
+            –
+            <input
+              type="number"
+              min={40}
+              max={300}
+              value={profile.bpmRange[1]}
+              disabled={disabled}
+              onChange={(e) => set("bpmRange", [profile.bpmRange[0], parseFloat(e.target.value) || 0])}
+            />
+          </span>
+        </label>
+
+        <label className="advanced-row">
+          <span className="detail-label">🏆 Banger at</span>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={1}
+            value={profile.threshold}
+            disabled={disabled}
+            onChange={(e) => set("threshold", parseFloat(e.target.value))}
+          />
+          <span className="detail-value">{profile.threshold}</span>
+        </label>
+
+        {(Object.keys(WEIGHT_LABELS) as ScoreComponentId[]).map((id) => (
+          <label key={id} className="advanced-row">
+            <span className="detail-label">{WEIGHT_LABELS[id]}</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={profile.weights[id]}
+              disabled={disabled}
+              onChange={(e) =>
+                set("weights", { ...profile.weights, [id]: parseFloat(e.target.value) })}
+            />
+            <span className="detail-value">{profile.weights[id].toFixed(2)}</span>
+          </label>
+        ))}
+
+        <div className="profile-actions">
+          <button
+            type="button"
+            className="submit-button"
+            disabled={disabled}
+            onClick={handleSave}
+          >
+            💾 SAVE
+          </button>
+          {profile.custom && (
+            <button
+              type="button"
+              className="submit-button cancel-button"
+              disabled={disabled}
+              onClick={handleDelete}
+            >
+              🗑️ DELETE
+            </button>
+          )}
+        </div>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import { ScoreComponent } from "../audio/analysis";
+
+interface ScoreBreakdownProps {
+  components: ScoreComponent[];
+}
+
+// Shows what each component contributed to the banger score, and what held it back
+export default function ScoreBreakdown({ components }: ScoreBreakdownProps) {
+  // Points a component missed out on: what a perfect score would have added on top
+  const missed = (component: ScoreComponent) =>
+    (100 - component.score) * component.weight;
+  const weakest = [...components].sort((a, b) => missed(b) - missed(a))[0];
+
+  return (
+    <div className="score-breakdown">
+      <h3>WHY THIS SCORE?</h3>
+      {components.map((component) => (
+        <div key={component.id} className="breakdown-row">
+          <span className="detail-label">{component.label}</span>
+          <div className="breakdown-bar">
+            <div
+              className="breakdown-fill"
+              style={{ width: `${component.score}%` }}
+            />
+          </div>
+          <span className="breakdown-weight">
+            ×{(component.weight * 100).toFixed(0)}%
+          </span>
+          <span className="detail-value">
+            +{component.contribution.toFixed(1)}
+          </span>
+        </div>
+      ))}
+      {weakest && missed(weakest) > 0 && (
+        <div className="breakdown-weakest">
+          🪫 HOLDING IT BACK: {weakest.label.toUpperCase()} (−
+          {missed(weakest).toFixed(1)} PTS)
+        </div>
+      )}
+    </div>
+  );
+}
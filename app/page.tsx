@@ -5,14 +5,54 @@ import "./page.css";
 import {
   analyzeBanification,
   BanificationScore,
-  playAudioBuffer,
+  exportAudio,
+  loadLiveSession,
+  loadWaveform,
+  printLivePreview,
   processAudioInBrowser,
+  readTrackMetadata,
+  rescoreBanification,
 } from "./audioProcessor";
+import { estimateRemaining, HardstyleProgress } from "./audio/progress";
+import { isAbortError } from "./audio/workerClient";
+import type { RhythmAnalysis } from "./audio/analysis";
+import { DEFAULT_EXPORT, EXPORT_FORMATS, ExportSettings } from "./audio/export";
+import { LivePreview, LiveSession } from "./audio/live";
+import { cacheRhythm, decodeFile, getCachedRhythm } from "./audio/loader";
+import { MasterReport } from "./audio/master";
+import { formatKey, hardstyleMetadata, TrackMetadata } from "./audio/metadata";
+import { DEFAULT_OPTIONS, HardstyleOptions, resolveOptions } from "./audio/options";
+import {
+  DEFAULT_PROFILE,
+  loadCustomProfiles,
+  PROFILES,
+  ScoringProfile,
+} from "./audio/profiles";
+import { conformRatio, nightcoreSemitones } from "./audio/tempo";
+import { Transport } from "./audio/transport";
+import { transposeNote } from "./audio/tuning";
+import { WaveformPeaks } from "./audio/waveform";
+import AdvancedPanel from "./components/AdvancedPanel";
+import BangerTimeline, { TIMELINE_WIDTH } from "./components/BangerTimeline";
+import BeatGridEditor from "./components/BeatGridEditor";
+import ExportPanel from "./components/ExportPanel";
+import LivePanel from "./components/LivePanel";
+import PreviewPlayer from "./components/PreviewPlayer";
+import ProfileSelector from "./components/ProfileSelector";
+import ScoreBreakdown from "./components/ScoreBreakdown";
 import { PixooClient } from "./pixoo/client";
 import { PixooVisualizer } from "./pixoo/visualizer";
 
+// What a render did to the tempo and key
+interface RenderedTempo {
+  bpm: number;
+  key: string;
+  ratio: number; // tempo conform applied, 1 when none
+}
+
 export default function Home() {
   const [file, setFile] = useState<File | null>(null);
+  const [trackMetadata, setTrackMetadata] = useState<TrackMetadata>({});
   const [processing, setProcessing] = useState(false);
   const [analyzing, setAnalyzing] = useState(false);
   const [message, setMessage] = useState("");
@@ -22,18 +62,135 @@ export default function Home() {
   const [processedAudio, setProcessedAudio] = useState<AudioBuffer | null>(
     null,
   );
+  const [masterReport, setMasterReport] = useState<MasterReport | null>(null);
+  // Tempo and key processedAudio came out at, for its tags (not whatever the knobs say now)
+  const [processedTempo, setProcessedTempo] = useState<RenderedTempo | null>(null);
+  const [options, setOptions] = useState<HardstyleOptions>(DEFAULT_OPTIONS);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT);
+  const [exporting, setExporting] = useState(false);
+  const [profile, setProfile] = useState<ScoringProfile>(
+    PROFILES[DEFAULT_PROFILE],
+  );
+  const [customProfiles, setCustomProfiles] = useState<ScoringProfile[]>([]);
+  const [waveform, setWaveform] = useState<WaveformPeaks | null>(null);
+  // Beat grid the render will use (editable), and the one analysis found (for reset)
+  const [rhythm, setRhythm] = useState<RhythmAnalysis | null>(null);
+  const [analyzedRhythm, setAnalyzedRhythm] = useState<RhythmAnalysis | null>(
+    null,
+  );
   const [isPlaying, setIsPlaying] = useState(false);
-  const [audioControl, setAudioControl] = useState<
-    {
-      stop: () => void;
-      context: AudioContext;
-    } | null
-  >(null);
+  const [isLivePlaying, setIsLivePlaying] = useState(false);
+  // One transport and one live preview on the shared AudioContext for the whole session
+  const [transport, setTransport] = useState<Transport | null>(null);
+  const [live, setLive] = useState<LivePreview | null>(null);
+  const [liveSession, setLiveSession] = useState<LiveSession | null>(null);
+
+  const [progress, setProgress] = useState<HardstyleProgress | null>(null);
+  // A worker job is running: one at a time, so CANCEL always means that one
+  const busy = analyzing || processing || exporting;
+
+  // Cancels the analysis/render job running in the worker
+  const abortRef = useRef<AbortController | null>(null);
+  const jobStartedAtRef = useRef(0);
 
   // Pixoo visualizer setup
   const visualizerRef = useRef<PixooVisualizer | null>(null);
   const updateIntervalRef = useRef<number | null>(null);
 
+  useEffect(() => {
+    // localStorage only exists in the browser, so load saved profiles after mount
+    setCustomProfiles(loadCustomProfiles());
+  }, []);
+
+  // Only one of them plays at a time: starting either pauses the other
+  useEffect(() => {
+    const player = new Transport();
+    const preview = new LivePreview();
+    setTransport(player);
+    setLive(preview);
+    const unsubscribePlayer = player.subscribe((state) => {
+      setIsPlaying(state.playing);
+      if (state.playing) preview.pause();
+    });
+    const unsubscribePreview = preview.subscribe((playing) => {
+      setIsLivePlaying(playing);
+      if (playing) player.pause();
+    });
+    return () => {
+      unsubscribePlayer();
+      unsubscribePreview();
+      player.dispose();
+      preview.dispose();
+    };
+  }, []);
+
+  // A/B buffers: the decoded upload (cached from analysis) and the latest render
+  useEffect(() => {
+    if (!transport) return;
+    if (!file || !processedAudio) {
+      transport.dispose();
+      return;
+    }
+    let current = true;
+    decodeFile(file)
+      .catch(() => null)
+      .then((original) => {
+        if (current) transport.setBuffers(original, processedAudio);
+      });
+    return () => {
+      current = false;
+    };
+  }, [transport, file, processedAudio]);
+
+  // Tags of the upload, for the export (a slow read of a previous file is dropped)
+  useEffect(() => {
+    setTrackMetadata({});
+    if (!file) return;
+    let current = true;
+    readTrackMetadata(file)
+      .catch((error): TrackMetadata => {
+        console.error("Tag read error:", error);
+        return {};
+      })
+      .then((metadata) => {
+        if (current) setTrackMetadata(metadata);
+      });
+    return () => {
+      current = false;
+    };
+  }, [file]);
+
+  // Live preview: decode the track and samples once the grid and key are known...
+  useEffect(() => {
+    if (!file || !rhythm || !banificationScore) {
+      setLiveSession(null);
+      return;
+    }
+    // A newer grid or sample choice cancels the session still loading
+    const controller = new AbortController();
+    loadLiveSession(file, rhythm, banificationScore.key, options, controller.signal)
+      .then((session) => {
+        if (!controller.signal.aborted) setLiveSession(session);
+      })
+      .catch((error) => {
+        if (!isAbortError(error)) console.error("Live preview error:", error);
+      });
+    return () => controller.abort();
+  }, [file, rhythm, banificationScore?.key, options.kickSample, options.customKick, options.tockSample]);
+
+  // ...and hear every knob right away
+  useEffect(() => {
+    live?.update(resolveOptions({
+      ...options,
+      trackKey: banificationScore?.key ?? null,
+      trackBpm: rhythm?.bpm ?? banificationScore?.bpm ?? null,
+    }));
+  }, [live, options, banificationScore, rhythm]);
+
+  useEffect(() => {
+    live?.setSession(liveSession);
+  }, [live, liveSession]);
+
   useEffect(() => {
     // Initialize visualizer on mount
     const pixooClient = new PixooClient();
@@ -52,10 +209,16 @@ export default function Home() {
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      setFile(e.target.files[0]);
+      const selected = e.target.files[0];
+      setFile(selected);
       setMessage("");
       setProcessedAudio(null);
+      setMasterReport(null);
+      setProcessedTempo(null);
       setBanificationScore(null);
+      setWaveform(null);
+      setRhythm(null);
+      setAnalyzedRhythm(null);
     }
   };
 
@@ -74,13 +237,22 @@ export default function Home() {
       visualizerRef.current.start();
     }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    jobStartedAtRef.current = Date.now();
+
     try {
-      const score = await analyzeBanification(file, (progress) => {
-        setMessage(`🔍 ${progress}`);
-      });
+      const score = await analyzeBanification(file, (update) => {
+        setMessage(`🔍 ${update.message}`);
+        setProgress(update);
+      }, profile, controller.signal);
 
       setBanificationScore(score);
       setMessage(score.message);
+      setWaveform(await loadWaveform(file, TIMELINE_WIDTH));
+      const grid = getCachedRhythm(file);
+      setRhythm(grid);
+      setAnalyzedRhythm(grid);
 
       // Update visualizer with final score
       if (visualizerRef.current) {
@@ -93,9 +265,15 @@ export default function Home() {
         });
       }
     } catch (error) {
-      setMessage("💥 ANALYSIS FAILED! TRY AGAIN!");
-      console.error("Analysis error:", error);
+      if (isAbortError(error)) {
+        setMessage("🛑 ANALYSIS CANCELLED");
+      } else {
+        setMessage("💥 ANALYSIS FAILED! TRY AGAIN!");
+        console.error("Analysis error:", error);
+      }
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setProgress(null);
       setAnalyzing(false);
 
       // Stop visualizer after a delay to show final result
@@ -107,6 +285,23 @@ export default function Home() {
     }
   };
 
+  // Switching profile re-scores the analyzed track instantly: the features don't change
+  const handleProfileChange = (next: ScoringProfile) => {
+    setProfile(next);
+    if (banificationScore) {
+      const rescored = rescoreBanification(banificationScore, next);
+      setBanificationScore(rescored);
+      setMessage(rescored.message);
+    }
+  };
+
+  // Edited grids go into the per-file cache, which is where the render picks the grid up
+  const handleGridChange = (grid: RhythmAnalysis | null) => {
+    if (!file || !grid) return;
+    cacheRhythm(file, grid);
+    setRhythm(grid);
+  };
+
   const handleProcess = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -117,78 +312,166 @@ export default function Home() {
 
     setProcessing(true);
     setProcessedAudio(null);
+    setMasterReport(null);
+    setProcessedTempo(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    jobStartedAtRef.current = Date.now();
 
+    const tempo = renderedTempo(options.conform);
     try {
-      const audioBuffer = await processAudioInBrowser(file, (progress) => {
-        setMessage(`🔥 ${progress}`);
-      });
-
-      setProcessedAudio(audioBuffer);
+      const { buffer, master } = await processAudioInBrowser(file, (update) => {
+        setMessage(`🔥 ${update.message}`);
+        setProgress(update);
+      }, {
+        ...options,
+        trackKey: banificationScore?.key ?? null,
+        trackBpm: rhythm?.bpm ?? banificationScore?.bpm ?? null,
+      }, controller.signal);
+
+      setProcessedAudio(buffer);
+      setMasterReport(master);
+      setProcessedTempo(tempo);
       setMessage(`⚡ BOOM! YOUR TRACK IS READY TO RAGE! ⚡`);
     } catch (error) {
-      setMessage("💥 SYSTEM OVERLOAD! TRY AGAIN!");
-      console.error("Processing error:", error);
+      if (isAbortError(error)) {
+        setMessage("🛑 RENDER CANCELLED");
+      } else {
+        setMessage("💥 SYSTEM OVERLOAD! TRY AGAIN!");
+        console.error("Processing error:", error);
+      }
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setProgress(null);
       setProcessing(false);
     }
   };
 
-  const handlePlay = async () => {
-    if (!processedAudio) return;
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
 
-    if (isPlaying && audioControl) {
-      // Stop current playback
-      audioControl.stop();
-      setIsPlaying(false);
-      setAudioControl(null);
+  // Tempo and key a render with these options comes out at
+  const renderedTempo = (conform: HardstyleOptions["conform"]): RenderedTempo | null => {
+    if (!banificationScore) return null;
+    const bpm = rhythm?.bpm ?? banificationScore.bpm;
+    const ratio = conform === "off" ? 1 : conformRatio(bpm, options.targetBpm);
+    const key = conform === "nightcore"
+      ? transposeNote(banificationScore.key, nightcoreSemitones(ratio))
+      : banificationScore.key;
+    return { bpm: bpm * ratio, key, ratio };
+  };
 
-      // Stop visualizer
-      if (visualizerRef.current) {
-        visualizerRef.current.stop();
+  const handlePrint = async () => {
+    if (!liveSession) return;
+
+    setProcessing(true);
+    setProcessedAudio(null);
+    setMasterReport(null);
+    setProcessedTempo(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    jobStartedAtRef.current = Date.now();
+
+    // A print never time-stretches
+    const tempo = renderedTempo(options.conform === "stretch" ? "off" : options.conform);
+    try {
+      const { buffer, master } = await printLivePreview(liveSession, {
+        ...options,
+        trackKey: banificationScore?.key ?? null,
+        trackBpm: rhythm?.bpm ?? banificationScore?.bpm ?? null,
+      }, (update) => {
+        setMessage(`🔥 ${update.message}`);
+        setProgress(update);
+      }, controller.signal);
+
+      setProcessedAudio(buffer);
+      setMasterReport(master);
+      setProcessedTempo(tempo);
+      setMessage(`⚡ PRINTED! WHAT YOU HEARD IS WHAT YOU GET! ⚡`);
+    } catch (error) {
+      if (isAbortError(error)) {
+        setMessage("🛑 PRINT CANCELLED");
+      } else {
+        setMessage("💥 SYSTEM OVERLOAD! TRY AGAIN!");
+        console.error("Print error:", error);
       }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setProgress(null);
+      setProcessing(false);
+    }
+  };
+
+  // Lasers and the Pixoo visualizer follow whichever preview is playing
+  const playing = isPlaying || isLivePlaying;
+  useEffect(() => {
+    if (!playing) {
+      visualizerRef.current?.stop();
       if (updateIntervalRef.current) {
         clearInterval(updateIntervalRef.current);
         updateIntervalRef.current = null;
       }
-    } else {
-      // Start playback
-      const control = playAudioBuffer(processedAudio, () => {
-        setIsPlaying(false);
-        setAudioControl(null);
-
-        // Stop visualizer when playback ends
-        if (visualizerRef.current) {
-          visualizerRef.current.stop();
-        }
-        if (updateIntervalRef.current) {
-          clearInterval(updateIntervalRef.current);
-          updateIntervalRef.current = null;
-        }
-      });
-      setAudioControl(control);
-      setIsPlaying(true);
+      return;
+    }
 
-      // Start beat-synced visualizer with GIF background and random effects
-      if (visualizerRef.current && banificationScore) {
-        await visualizerRef.current.startBeatSync(banificationScore.bpm);
-      }
+    // Start beat-synced visualizer with GIF background and random effects
+    if (visualizerRef.current && banificationScore) {
+      // The render may have changed the tempo (live only does nightcore)
+      const bpm = rhythm?.bpm ?? banificationScore.bpm;
+      const ratio = options.conform === "off" || (isLivePlaying && options.conform === "stretch")
+        ? 1
+        : conformRatio(bpm, options.targetBpm);
+      visualizerRef.current.startBeatSync(bpm * ratio);
     }
-  };
+  }, [playing]);
 
-  const handleDownload = () => {
+  const handleDownload = async () => {
     if (!processedAudio) return;
 
-    // Convert AudioBuffer to WAV and download
-    const wav = audioBufferToWav(processedAudio);
-    const blob = new Blob([wav], { type: "audio/wav" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `${file?.name.replace(/\.[^/.]+$/, "")}-hardstyle.wav`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    setExporting(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    jobStartedAtRef.current = Date.now();
+
+    // Tags: the original's, plus the tempo and key the render ended up at
+    const baseName = file?.name.replace(/\.[^/.]+$/, "") ?? "track";
+    let tags: TrackMetadata = trackMetadata;
+    if (banificationScore && processedTempo) {
+      tags = hardstyleMetadata(trackMetadata, baseName, {
+        bpm: processedTempo.bpm,
+        key: formatKey(processedTempo.key, banificationScore.scale),
+        loudness: masterReport?.output,
+      });
+    }
+
+    try {
+      // Encode in the worker, then download
+      const blob = await exportAudio(processedAudio, exportSettings, tags, (update) => {
+        setMessage(`💿 ${update.message}`);
+        setProgress(update);
+      }, controller.signal);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${baseName}-hardstyle.${EXPORT_FORMATS[exportSettings.format].extension}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      setMessage("⚡ TRACK SAVED! GO RAGE! ⚡");
+    } catch (error) {
+      if (isAbortError(error)) {
+        setMessage("🛑 EXPORT CANCELLED");
+      } else {
+        setMessage(`💥 EXPORT FAILED! ${(error as Error).message}`);
+        console.error("Export error:", error);
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setProgress(null);
+      setExporting(false);
+    }
   };
 
   const handleTestPixoo = async () => {
@@ -207,7 +490,7 @@ export default function Home() {
   return (
     <main className="container">
       {/* Festival Lasers - behind everything */}
-      {isPlaying && (
+      {playing && (
         <>
           <div className="laser-container">
             {[...Array(24)].map((_, i) => (
@@ -254,9 +537,17 @@ export default function Home() {
         </>
       )}
 
-      <div className={`card ${isPlaying ? "playing" : ""}`}>
+      <div className={`card ${playing ? "playing" : ""}`}>
         <h1 className="subtitle">⚡ UNLEASH THE BASS ⚡</h1>
 
+        <ProfileSelector
+          profile={profile}
+          customProfiles={customProfiles}
+          onChange={handleProfileChange}
+          onCustomProfilesChange={setCustomProfiles}
+          disabled={analyzing || processing}
+        />
+
         {/* Step 1: Upload and Analyze - Only show if no score yet */}
         {!banificationScore && (
           <form onSubmit={handleProcess} className="upload-form">
@@ -266,7 +557,7 @@ export default function Home() {
                 type="file"
                 accept="audio/*"
                 onChange={handleFileChange}
-                disabled={processing || analyzing}
+                disabled={busy}
                 className="file-input"
               />
               <label htmlFor="file-input" className="file-label">
@@ -277,7 +568,7 @@ export default function Home() {
             <button
               type="button"
               onClick={handleAnalyze}
-              disabled={!file || analyzing || processing}
+              disabled={!file || busy}
               className="submit-button"
               style={{ marginTop: "10px" }}
             >
@@ -316,7 +607,7 @@ export default function Home() {
                 className="score-fill"
                 style={{
                   width: `${banificationScore.score}%`,
-                  backgroundColor: banificationScore.score >= 65
+                  backgroundColor: banificationScore.score >= banificationScore.threshold
                     ? "#00ff00"
                     : "#ff0000",
                 }}
@@ -332,6 +623,12 @@ export default function Home() {
                   {banificationScore.bpm.toFixed(0)}
                 </span>
               </div>
+              <div className="detail-item">
+                <span className="detail-label">🎹 Key:</span>
+                <span className="detail-value">
+                  {banificationScore.key} {banificationScore.scale}
+                </span>
+              </div>
               <div className="detail-item">
                 <span className="detail-label">⚡ Energy:</span>
                 <span className="detail-value">
@@ -357,31 +654,89 @@ export default function Home() {
                 </span>
               </div>
             </div>
+            <ScoreBreakdown components={banificationScore.components} />
+            {waveform && (
+              <BangerTimeline
+                peaks={waveform}
+                timeline={banificationScore.timeline}
+                sections={banificationScore.sections}
+                threshold={banificationScore.threshold}
+              />
+            )}
           </div>
         )}
 
-        {/* Step 3: Generate Button - Only show if score < 65 and no processed audio yet */}
-        {banificationScore &&
-          banificationScore.score < 99 &&
-          !processedAudio && (
-          <button
-            onClick={handleProcess}
-            disabled={!file || processing}
-            className="submit-button"
-            style={{ marginTop: "20px", width: "100%" }}
-          >
-            {processing ? "🔥 IGNITING THE BASS 🔥" : "⚡ MAKE IT HARD ⚡"}
-          </button>
+        {/* Step 3: Tweak the knobs and generate - can be re-run without re-uploading */}
+        {banificationScore && banificationScore.score < 99 && (
+          <>
+            {file && rhythm && waveform && (
+              <BeatGridEditor
+                file={file}
+                rhythm={rhythm}
+                duration={waveform.duration}
+                onChange={handleGridChange}
+                onReset={() => handleGridChange(analyzedRhythm)}
+                disabled={busy}
+              />
+            )}
+            <AdvancedPanel
+              options={options}
+              onChange={setOptions}
+              disabled={busy}
+            />
+            {live && (
+              <LivePanel
+                live={live}
+                ready={liveSession !== null}
+                stretched={options.conform === "stretch"}
+                onPrint={handlePrint}
+                disabled={busy}
+              />
+            )}
+            <button
+              onClick={handleProcess}
+              disabled={!file || busy}
+              className="submit-button"
+              style={{ marginTop: "20px", width: "100%" }}
+            >
+              {processing
+                ? "🔥 IGNITING THE BASS 🔥"
+                : processedAudio
+                ? "🔁 MAKE IT HARD AGAIN 🔁"
+                : "⚡ MAKE IT HARD ⚡"}
+            </button>
+          </>
         )}
 
-        {/* Step 4: Play Button - Shows after generation */}
+        {processedAudio && masterReport && (
+          <LoudnessMeter report={masterReport} />
+        )}
+
+        {/* Step 4: A/B preview - Shows after generation */}
+        {processedAudio && transport && <PreviewPlayer transport={transport} />}
+
         {processedAudio && (
+          <ExportPanel
+            settings={exportSettings}
+            onChange={setExportSettings}
+            onExport={handleDownload}
+            exporting={exporting}
+            disabled={processing || analyzing}
+          />
+        )}
+
+        {progress && (
+          <ProgressBar progress={progress} startedAt={jobStartedAtRef.current} />
+        )}
+
+        {busy && (
           <button
-            onClick={handlePlay}
-            className="submit-button"
-            style={{ marginTop: "20px", width: "100%" }}
+            type="button"
+            onClick={handleCancel}
+            className="submit-button cancel-button"
+            style={{ marginTop: "10px", width: "100%" }}
           >
-            {isPlaying ? "🛑 KILL IT" : "🚀 BLAST IT"}
+            🛑 CANCEL
           </button>
         )}
 
@@ -403,66 +758,66 @@ export default function Home() {
   );
 }
 
-// Helper function to convert AudioBuffer to WAV
-function audioBufferToWav(buffer: AudioBuffer): ArrayBuffer {
-  const length = buffer.length * buffer.numberOfChannels * 2 + 44;
-  const arrayBuffer = new ArrayBuffer(length);
-  const view = new DataView(arrayBuffer);
-  const channels: Float32Array[] = [];
-  let offset = 0;
-  let pos = 0;
-
-  // Write WAV header
-  const setUint16 = (data: number) => {
-    view.setUint16(pos, data, true);
-    pos += 2;
-  };
-  const setUint32 = (data: number) => {
-    view.setUint32(pos, data, true);
-    pos += 4;
-  };
+// Real progress bar for analysis/render jobs, with frame count and ETA
+function ProgressBar({
+  progress,
+  startedAt,
+}: {
+  progress: HardstyleProgress;
+  startedAt: number;
+}) {
+  const remaining = estimateRemaining(startedAt, progress.fraction);
 
-  // RIFF identifier
-  setUint32(0x46464952);
-  // file length
-  setUint32(length - 8);
-  // RIFF type
-  setUint32(0x45564157);
-  // format chunk identifier
-  setUint32(0x20746d66);
-  // format chunk length
-  setUint32(16);
-  // sample format (raw)
-  setUint16(1);
-  // channel count
-  setUint16(buffer.numberOfChannels);
-  // sample rate
-  setUint32(buffer.sampleRate);
-  // byte rate (sample rate * block align)
-  setUint32(buffer.sampleRate * buffer.numberOfChannels * 2);
-  // block align (channel count * bytes per sample)
-  setUint16(buffer.numberOfChannels * 2);
-  // bits per sample
-  setUint16(16);
-  // data chunk identifier
-  setUint32(0x61746164);
-  // data chunk length
-  setUint32(length - pos - 4);
-
-  // Write interleaved data
-  for (let i = 0; i < buffer.numberOfChannels; i++) {
-    channels.push(buffer.getChannelData(i));
-  }
-
-  while (pos < length) {
-    for (let i = 0; i < buffer.numberOfChannels; i++) {
-      let sample = Math.max(-1, Math.min(1, channels[i][offset]));
-      sample = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
-      view.setInt16(pos, sample, true);
-      pos += 2;
-    }
-    offset++;
-  }
+  return (
+    <div className="progress">
+      <div className="score-bar progress-bar">
+        <div
+          className="score-fill"
+          style={{ width: `${(progress.fraction * 100).toFixed(1)}%` }}
+        />
+        <span className="score-text">
+          {(progress.fraction * 100).toFixed(0)}%
+        </span>
+      </div>
+      <div className="progress-info">
+        <span>{progress.stage.toUpperCase()}</span>
+        {progress.framesTotal !== undefined && (
+          <span>
+            {progress.framesProcessed ?? 0}/{progress.framesTotal} FRAMES
+          </span>
+        )}
+        {remaining !== null && <span>~{Math.ceil(remaining)}s LEFT</span>}
+      </div>
+    </div>
+  );
+}
 
-  return arrayBuffer;
+// What the master bus measured on the last render
+function LoudnessMeter({ report }: { report: MasterReport }) {
+  const db = (value: number) => (isFinite(value) ? value.toFixed(1) : "-∞");
+
+  return (
+    <div className="score-details loudness-meter">
+      <div className="detail-item">
+        <span className="detail-label">🔊 Loudness:</span>
+        <span className="detail-value">
+          {db(report.output.integrated)} LUFS
+        </span>
+      </div>
+      <div className="detail-item">
+        <span className="detail-label">📈 True peak:</span>
+        <span className="detail-value">{db(report.output.truePeak)} dBTP</span>
+      </div>
+      <div className="detail-item">
+        <span className="detail-label">🧱 Limiter:</span>
+        <span className="detail-value">{db(report.maxReduction)} dB</span>
+      </div>
+      <div className="detail-item">
+        <span className="detail-label">🎚️ Before master:</span>
+        <span className="detail-value">
+          {db(report.input.integrated)} LUFS / {db(report.input.truePeak)} dBTP
+        </span>
+      </div>
+    </div>
+  );
 }
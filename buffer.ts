@@ -4,79 +4,73 @@ import esPkg from 'essentia.js'
 import type { default as EssentiaType } from 'essentia.js/dist/core_api.d.ts';
 import { readFile } from 'fs/promises';
 import decode from 'audio-decode';
-import { WaveFile } from 'wavefile';
 import path from 'path';
+import { resolveKick, SYNTH_KICK } from './app/audio/kicks';
+import { HardstyleOptionsInput, resolveOptions } from './app/audio/options';
+import { renderHardstyle } from './app/audio/render';
+import { encodeWav } from './app/audio/wav';
 
 /**
  * Process an audio file and add hardstyle beats to it
  * @param audioBuffer - The input audio file as a Buffer
- * @returns The processed audio as a Buffer (WAV format)
+ * @param options - Same options as processAudioInBrowser, sample paths are relative to the project root
+ * @returns The processed audio as a Buffer (WAV format, same channel count as the input)
  */
-export async function processAudioWithBeats(audioBuffer: Buffer): Promise<Buffer> {
+export async function processAudioWithBeats(
+    audioBuffer: Buffer,
+    options: HardstyleOptionsInput = {}
+): Promise<Buffer> {
+    const settings = resolveOptions(options);
     const essentia: EssentiaType = new esPkg.Essentia(esPkg.EssentiaWASM);
 
     try {
         // Decode the input audio
         const music = await decode(audioBuffer);
 
-        // Analyze rhythm and find beat positions
-        const audioVector = essentia.arrayToVector(music.getChannelData(0));
-        const result = essentia.RhythmDescriptors(audioVector);
-        const ticks = essentia.vectorToArray(result.beats_position);
-
-        // Load tick and tock samples
-        const tickBuffer = await readFile(path.join(process.cwd(), 'hskick.wav'));
-        const tickAudio = await decode(tickBuffer);
-        const tickSamples = tickAudio.getChannelData(0);
+        // Load kick (uploaded or from the library, the synth kick is generated while rendering) and tock samples
+        let tickAudio = null;
+        if (settings.kickSample !== SYNTH_KICK) {
+            const kick = resolveKick(settings.kickSample, settings.customKick !== null);
+            const tickBuffer = kick
+                ? await readFile(path.join(process.cwd(), kick.file))
+                : Buffer.from(await settings.customKick!.arrayBuffer());
+            tickAudio = await decode(tickBuffer);
+        }
 
-        const tockBuffer = await readFile(path.join(process.cwd(), 'tick.wav'));
+        const tockBuffer = await readFile(path.join(process.cwd(), settings.tockSample));
         const tockAudio = await decode(tockBuffer);
-        const tockSamples = tockAudio.getChannelData(0);
 
         const sampleRate = music.sampleRate;
-        const totalSamples = music.getChannelData(0).length;
-        const outputBuffer = new Float32Array(totalSamples);
 
-        // Copy original audio at reduced volume
-        for (let i = 0; i < totalSamples; i++) {
-            outputBuffer[i] = music.getChannelData(0)[i] * 0.5;
+        // Same render core as the browser worker: beats, kick prep, sidechain and mixing
+        const channels: Float32Array[] = [];
+        for (let channel = 0; channel < music.numberOfChannels; channel++) {
+            channels.push(music.getChannelData(channel));
         }
-
-        // Add beats at detected positions
-        ticks.slice(0).forEach((tickTime, index, arr) => {
-            const samplePosition = Math.floor(tickTime * sampleRate);
-            const halfBeatSeconds = tickTime + (Math.abs(arr[index + 1] - tickTime) / 2)
-            const halfBeatPostition = Math.floor(halfBeatSeconds * sampleRate)
-
-            // Add tick sound
-            for (let i = 0; i < tickSamples.length; i++) {
-                const outputIndex = samplePosition + i;
-                if (outputIndex < totalSamples) {
-                    outputBuffer[outputIndex] += tickSamples[i] * 0.4;
-                }
+        // Only stage changes are logged, the frame-by-frame ticks would flood stdout
+        let lastStage = '';
+        const { channels: outputChannels, master } = renderHardstyle(
+            essentia,
+            channels,
+            sampleRate,
+            null,
+            tickAudio,
+            tockAudio,
+            settings,
+            progress => {
+                if (progress.stage === lastStage) return;
+                lastStage = progress.stage;
+                console.log(`[SERVER] ${progress.message}`);
             }
+        );
 
-            // Add tock sound at half beat
-            for (let i = 0; i < tockSamples.length; i++) {
-                const outputIndex = halfBeatPostition + i;
-                if (outputIndex < totalSamples) {
-                    outputBuffer[outputIndex] += tockSamples[i] * 0.4;
-                }
-            }
-        });
-
-        // Convert to 16-bit PCM
-        const int16Buffer = new Int16Array(totalSamples);
-        for (let i = 0; i < totalSamples; i++) {
-            const sample = Math.max(-1, Math.min(1, outputBuffer[i]));
-            int16Buffer[i] = Math.floor(sample * 32767);
-        }
-
-        // Create WAV file
-        const wav = new WaveFile();
-        wav.fromScratch(1, sampleRate, '16', int16Buffer);
+        console.log(
+            `[SERVER] Mastered to ${master.output.integrated.toFixed(1)} LUFS, ${master.output.truePeak.toFixed(1)} dBTP,`,
+            `limiter ${master.maxReduction.toFixed(1)} dB`
+        );
 
-        return Buffer.from(wav.toBuffer());
+        // 16-bit WAV through the same writer as the browser export, so the headers match
+        return Buffer.concat(encodeWav(outputChannels, sampleRate, 16, false));
     } finally {
         essentia.shutdown();
         essentia.delete();